@@ -0,0 +1,264 @@
+// Audit log of every query and tool call the app makes through CDataContext.
+// The browser reports each call; the server stamps it with the signed-in user and
+// appends it to AUDIT_LOG_FILE (default audit-log.jsonl), one JSON record per line.
+// Admins read, filter and export the log under Settings > Audit Log.
+
+import { randomUUID } from "crypto";
+import fs from "fs";
+import type { IncomingMessage, ServerResponse } from "http";
+import path from "path";
+import { getRequestUser, readBody, sendJSON, type Middleware, type ServerEnv } from "./http.js";
+import { ADMIN_ROLE } from "./users.js";
+
+const ROUTE = "/api/audit";
+const EXPORT_ROUTE = "/api/audit/export";
+const MAX_BODY_BYTES = 256 * 1024;
+// Must match src/lib/audit.ts
+const MAX_TEXT_LENGTH = 20_000;
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// Must match src/lib/audit.ts
+const ORIGINS = ["dashboard", "explorer", "advisor", "schema", "connections"] as const;
+const KINDS = ["query", "tool", "connection"] as const;
+const CACHE_STATUSES = ["hit", "stale", "miss"] as const;
+
+export interface AuditRecord {
+  id: string;
+  // When the call started, as reported by the browser
+  timestamp: string;
+  user: string;
+  role: string;
+  origin: (typeof ORIGINS)[number];
+  kind: (typeof KINDS)[number];
+  sql?: string;
+  // Set when permissions rewrote the SQL before it ran
+  executedSql?: string;
+  tool?: string;
+  args?: string;
+  durationMs: number;
+  rowCount?: number;
+  // Query cache outcome for reads; a hit never reached CData
+  cache?: (typeof CACHE_STATUSES)[number];
+  error?: string;
+}
+
+interface AuditFilter {
+  user?: string;
+  origin?: string;
+  kind?: string;
+  status?: "ok" | "error";
+  search?: string;
+  from?: number;
+  to?: number;
+}
+
+function optionalText(value: unknown): string | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  return value.length > MAX_TEXT_LENGTH ? `${value.slice(0, MAX_TEXT_LENGTH)}…` : value;
+}
+
+function isOneOf<T extends string>(values: readonly T[], value: unknown): value is T {
+  return typeof value === "string" && (values as readonly string[]).includes(value);
+}
+
+// Builds a record from the browser's report; returns a problem description when invalid
+function toRecord(body: unknown, user: { email: string; role: string }): AuditRecord | string {
+  if (typeof body !== "object" || body === null) return "Expected a JSON object";
+  const input = body as Record<string, unknown>;
+
+  if (!isOneOf(ORIGINS, input.origin)) return `origin must be one of ${ORIGINS.join(", ")}`;
+  if (!isOneOf(KINDS, input.kind)) return `kind must be one of ${KINDS.join(", ")}`;
+  if (typeof input.durationMs !== "number" || !Number.isFinite(input.durationMs)) return "durationMs must be a number";
+  const timestamp = typeof input.timestamp === "string" ? Date.parse(input.timestamp) : NaN;
+  if (Number.isNaN(timestamp)) return "timestamp must be an ISO date";
+
+  return {
+    id: randomUUID(),
+    timestamp: new Date(timestamp).toISOString(),
+    // Never trust the browser for who made the call
+    user: user.email,
+    role: user.role,
+    origin: input.origin,
+    kind: input.kind,
+    sql: optionalText(input.sql),
+    executedSql: optionalText(input.executedSql),
+    tool: optionalText(input.tool),
+    args: optionalText(typeof input.args === "string" ? input.args : input.args === undefined ? undefined : JSON.stringify(input.args)),
+    durationMs: Math.max(0, Math.round(input.durationMs)),
+    rowCount: typeof input.rowCount === "number" ? input.rowCount : undefined,
+    cache: isOneOf(CACHE_STATUSES, input.cache) ? input.cache : undefined,
+    error: optionalText(input.error),
+  };
+}
+
+function parseFilter(url: URL): AuditFilter {
+  const param = (name: string) => url.searchParams.get(name)?.trim() || undefined;
+  const date = (name: string) => {
+    const value = param(name);
+    const time = value ? Date.parse(value) : NaN;
+    return Number.isNaN(time) ? undefined : time;
+  };
+  const status = param("status");
+  return {
+    user: param("user")?.toLowerCase(),
+    origin: param("origin"),
+    kind: param("kind"),
+    status: status === "ok" || status === "error" ? status : undefined,
+    search: param("q")?.toLowerCase(),
+    from: date("from"),
+    to: date("to"),
+  };
+}
+
+function matches(record: AuditRecord, filter: AuditFilter): boolean {
+  const time = Date.parse(record.timestamp);
+  if (filter.user && !record.user.toLowerCase().includes(filter.user)) return false;
+  if (filter.origin && record.origin !== filter.origin) return false;
+  if (filter.kind && record.kind !== filter.kind) return false;
+  if (filter.status === "error" && !record.error) return false;
+  if (filter.status === "ok" && record.error) return false;
+  if (filter.from !== undefined && time < filter.from) return false;
+  if (filter.to !== undefined && time > filter.to) return false;
+  if (filter.search) {
+    const text = [record.sql, record.executedSql, record.tool, record.args, record.error].join("\n").toLowerCase();
+    if (!text.includes(filter.search)) return false;
+  }
+  return true;
+}
+
+const CSV_COLUMNS: Array<keyof AuditRecord> = [
+  "timestamp", "user", "role", "origin", "kind", "tool", "sql", "executedSql", "args", "durationMs", "rowCount", "cache", "error",
+];
+
+// Cells a spreadsheet would read as a formula; SQL, prompts and arguments come from users
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  const raw = String(value);
+  const text = FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCSV(records: AuditRecord[]): string {
+  const lines = [CSV_COLUMNS.join(",")];
+  for (const record of records) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(record[column])).join(","));
+  }
+  return `${lines.join("\r\n")}\r\n`;
+}
+
+export function createAuditStore(env: ServerEnv) {
+  const filePath = path.resolve(env.AUDIT_LOG_FILE || "audit-log.jsonl");
+  // Appends run one after another so concurrent reports never interleave
+  let writes: Promise<void> = Promise.resolve();
+
+  const append = (record: AuditRecord) => {
+    writes = writes
+      .catch(() => undefined)
+      .then(() => fs.promises.appendFile(filePath, `${JSON.stringify(record)}\n`));
+    return writes;
+  };
+
+  // Newest first. Unreadable lines are skipped rather than hiding the rest of the log.
+  const query = async (filter: AuditFilter): Promise<AuditRecord[]> => {
+    await writes.catch(() => undefined);
+    if (!fs.existsSync(filePath)) return [];
+    const lines = (await fs.promises.readFile(filePath, "utf8")).split("\n");
+    const records: AuditRecord[] = [];
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as AuditRecord;
+        if (matches(record, filter)) records.push(record);
+      } catch {
+        // Partially written line
+      }
+    }
+    return records.reverse();
+  };
+
+  return { append, query };
+}
+
+/**
+ * POST /api/audit records a call for the signed-in user.
+ * GET /api/audit?user=&origin=&kind=&status=&q=&from=&to=&limit= lists records (admins only).
+ * GET /api/audit/export?format=csv|json with the same filters downloads them (admins only).
+ */
+export function createAuditHandler(env: ServerEnv): Middleware {
+  const store = createAuditStore(env);
+
+  const handleError = (res: ServerResponse, err: unknown) => {
+    if (!res.headersSent) {
+      sendJSON(res, 500, { error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const record = async (req: IncomingMessage, res: ServerResponse, user: { email: string; role: string }) => {
+    let body: unknown;
+    try {
+      body = JSON.parse((await readBody(req, MAX_BODY_BYTES)).toString("utf8"));
+    } catch {
+      sendJSON(res, 400, { error: "Invalid request body" });
+      return;
+    }
+
+    const entry = toRecord(body, user);
+    if (typeof entry === "string") {
+      sendJSON(res, 400, { error: entry });
+      return;
+    }
+    await store.append(entry);
+    sendJSON(res, 201, { id: entry.id });
+  };
+
+  const list = async (url: URL, res: ServerResponse) => {
+    const records = await store.query(parseFilter(url));
+    const requested = Number(url.searchParams.get("limit")) || DEFAULT_LIMIT;
+    const limit = Math.min(Math.max(requested, 1), MAX_LIMIT);
+    sendJSON(res, 200, { records: records.slice(0, limit), total: records.length });
+  };
+
+  const exportRecords = async (url: URL, res: ServerResponse) => {
+    const records = await store.query(parseFilter(url));
+    const isCSV = url.searchParams.get("format") !== "json";
+    const stamp = new Date().toISOString().slice(0, 10);
+    res.statusCode = 200;
+    res.setHeader("Content-Type", isCSV ? "text/csv; charset=utf-8" : "application/json");
+    res.setHeader("Content-Disposition", `attachment; filename="audit-log-${stamp}.${isCSV ? "csv" : "json"}"`);
+    res.end(isCSV ? toCSV(records) : JSON.stringify(records, null, 2));
+  };
+
+  return (req, res, next) => {
+    const url = new URL(req.url || "/", "http://localhost");
+    if (url.pathname !== ROUTE && url.pathname !== EXPORT_ROUTE) {
+      next();
+      return;
+    }
+
+    const user = getRequestUser(req);
+    if (!user) {
+      sendJSON(res, 401, { error: "Not signed in" });
+      return;
+    }
+
+    if (url.pathname === ROUTE && req.method === "POST") {
+      record(req, res, user).catch((err) => handleError(res, err));
+      return;
+    }
+
+    if (req.method !== "GET") {
+      sendJSON(res, 405, { error: "Method not allowed" });
+      return;
+    }
+    if (user.role !== ADMIN_ROLE) {
+      sendJSON(res, 403, { error: "Only admins can read the audit log" });
+      return;
+    }
+
+    const handler = url.pathname === EXPORT_ROUTE ? exportRecords : list;
+    handler(url, res).catch((err) => handleError(res, err));
+  };
+}
@@ -0,0 +1,177 @@
+// Sign-in and sessions. Sessions are kept in memory and referenced by an httpOnly
+// cookie, so the browser never holds anything it could leak to scripts. Every
+// request passes through here first, and later routes read the user with getRequestUser.
+
+import crypto from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
+import {
+  isSecureRequest,
+  parseCookies,
+  readBody,
+  redirect,
+  sendJSON,
+  setRequestUser,
+  type Middleware,
+  type ServerEnv,
+} from "./http.js";
+import { createOIDCClient, OIDC_CALLBACK_PATH, OIDC_LOGIN_PATH, type OIDCIdentity } from "./oidc.js";
+import { ADMIN_ROLE, createUserStore, type AuthUser } from "./users.js";
+
+const SESSION_COOKIE = "sightline_session";
+const DEFAULT_SESSION_HOURS = 8;
+const MAX_BODY_BYTES = 16 * 1024;
+
+interface Session {
+  user: AuthUser;
+  expiresAt: number;
+}
+
+function createSessionStore(ttlMs: number) {
+  const sessions = new Map<string, Session>();
+
+  const prune = () => {
+    const now = Date.now();
+    for (const [id, session] of sessions) {
+      if (session.expiresAt <= now) sessions.delete(id);
+    }
+  };
+
+  return {
+    create(user: AuthUser): string {
+      prune();
+      const id = crypto.randomBytes(32).toString("base64url");
+      sessions.set(id, { user, expiresAt: Date.now() + ttlMs });
+      return id;
+    },
+    get(id: string | undefined): AuthUser | undefined {
+      const session = id ? sessions.get(id) : undefined;
+      if (!session) return undefined;
+      if (session.expiresAt <= Date.now()) {
+        sessions.delete(id!);
+        return undefined;
+      }
+      return session.user;
+    },
+    delete(id: string | undefined) {
+      if (id) sessions.delete(id);
+    },
+  };
+}
+
+function setSessionCookie(req: IncomingMessage, res: ServerResponse, value: string, maxAgeSeconds: number) {
+  const attributes = [
+    `${SESSION_COOKIE}=${value}`,
+    "Path=/",
+    "HttpOnly",
+    "SameSite=Lax",
+    `Max-Age=${maxAgeSeconds}`,
+  ];
+  if (isSecureRequest(req)) attributes.push("Secure");
+  res.setHeader("Set-Cookie", attributes.join("; "));
+}
+
+/**
+ * Handles `/api/auth/*`:
+ * - GET  /api/auth/session -> { user, oidc } (user is null when signed out)
+ * - POST /api/auth/login { email, password } -> { user }
+ * - POST /api/auth/logout
+ * - GET  /api/auth/oidc/login, /api/auth/oidc/callback (when OIDC_ISSUER is set)
+ *
+ * Users come from server/users.ts; sessions last AUTH_SESSION_HOURS (default 8).
+ */
+export function createAuthHandler(env: ServerEnv): Middleware {
+  const users = createUserStore(env);
+  const oidc = createOIDCClient(env);
+  const sessionHours = Number(env.AUTH_SESSION_HOURS) || DEFAULT_SESSION_HOURS;
+  const sessionTtlSeconds = Math.round(sessionHours * 60 * 60);
+  const sessions = createSessionStore(sessionTtlSeconds * 1000);
+  const oidcAdmins = new Set(
+    (env.OIDC_ADMIN_EMAILS || "").split(",").map((email) => email.trim().toLowerCase()).filter(Boolean)
+  );
+
+  const startSession = (req: IncomingMessage, res: ServerResponse, user: AuthUser) => {
+    setSessionCookie(req, res, sessions.create(user), sessionTtlSeconds);
+  };
+
+  // Users from the store keep their role and tenant; other provider accounts are admins only if listed
+  const resolveOIDCUser = async ({ email, name, tenant }: OIDCIdentity): Promise<AuthUser> => {
+    const stored = await users.findUser(email);
+    const user: AuthUser = { email, role: stored?.role || (oidcAdmins.has(email) ? ADMIN_ROLE : "user") };
+    if (name || stored?.name) user.name = name || stored?.name;
+    if (stored?.tenant || tenant) user.tenant = stored?.tenant || tenant;
+    return user;
+  };
+
+  const login = async (req: IncomingMessage, res: ServerResponse) => {
+    let credentials: { email?: unknown; password?: unknown };
+    try {
+      credentials = JSON.parse((await readBody(req, MAX_BODY_BYTES)).toString("utf8"));
+    } catch {
+      sendJSON(res, 400, { error: "Invalid request body" });
+      return;
+    }
+
+    const { email, password } = credentials;
+    if (typeof email !== "string" || typeof password !== "string" || !email || !password) {
+      sendJSON(res, 400, { error: "Email and password are required" });
+      return;
+    }
+
+    const user = await users.authenticate(email, password);
+    if (!user) {
+      sendJSON(res, 401, { error: "Invalid email or password" });
+      return;
+    }
+
+    startSession(req, res, user);
+    sendJSON(res, 200, { user });
+  };
+
+  const oidcCallback = async (req: IncomingMessage, res: ServerResponse, params: URLSearchParams) => {
+    try {
+      const identity = await oidc!.handleCallback(params);
+      startSession(req, res, await resolveOIDCUser(identity));
+      redirect(res, "/dashboard");
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      redirect(res, `/?error=${encodeURIComponent(message)}`);
+    }
+  };
+
+  return (req, res, next) => {
+    const sessionId = parseCookies(req)[SESSION_COOKIE];
+    const user = sessions.get(sessionId);
+    if (user) setRequestUser(req, user);
+
+    const [path, query = ""] = (req.url || "").split("?");
+    if (!path.startsWith("/api/auth/")) {
+      next();
+      return;
+    }
+
+    const handleError = (err: unknown) => {
+      if (!res.headersSent) {
+        sendJSON(res, 500, { error: err instanceof Error ? err.message : String(err) });
+      }
+    };
+
+    if (req.method === "GET" && path === "/api/auth/session") {
+      sendJSON(res, 200, { user: user || null, oidc: oidc ? { label: oidc.label } : null });
+    } else if (req.method === "POST" && path === "/api/auth/login") {
+      login(req, res).catch(handleError);
+    } else if (req.method === "POST" && path === "/api/auth/logout") {
+      sessions.delete(sessionId);
+      setSessionCookie(req, res, "", 0);
+      sendJSON(res, 200, { ok: true });
+    } else if (req.method === "GET" && path === OIDC_LOGIN_PATH && oidc) {
+      oidc
+        .getAuthorizationURL(req)
+        .then((url) => redirect(res, url))
+        .catch((err) => redirect(res, `/?error=${encodeURIComponent(err instanceof Error ? err.message : String(err))}`));
+    } else if (req.method === "GET" && path === OIDC_CALLBACK_PATH && oidc) {
+      oidcCallback(req, res, new URLSearchParams(query)).catch(handleError);
+    } else {
+      sendJSON(res, 404, { error: `Unknown auth endpoint: ${path}` });
+    }
+  };
+}
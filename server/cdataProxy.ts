@@ -0,0 +1,76 @@
+// Reverse proxy for the CData Embedded Cloud REST API (avoids browser CORS)
+
+import type { IncomingMessage } from "http";
+import { readBody, sendJSON, type Middleware, type ServerEnv } from "./http.js";
+
+const ROUTE_PREFIX = "/cdata-api";
+const DEFAULT_TARGET = "https://cloud.cdata.com/api";
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+
+// Only what the CData API needs goes upstream. Everything else stays here, above
+// all the cookie carrying the user's session.
+const FORWARDED_REQUEST_HEADERS = new Set(["content-type", "accept", "authorization"]);
+// Hop-by-hop headers, plus ones that no longer apply once fetch has decoded the body
+const SKIPPED_RESPONSE_HEADERS = new Set(["connection", "content-encoding", "content-length", "transfer-encoding"]);
+
+function forwardHeaders(req: IncomingMessage): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined || !FORWARDED_REQUEST_HEADERS.has(name)) continue;
+    headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  return headers;
+}
+
+/**
+ * Forwards `/cdata-api/*` to the CData API (`/api/*`).
+ * The target can be overridden with CDATA_API_URL.
+ */
+export function createCDataProxy(env: ServerEnv): Middleware {
+  const target = (env.CDATA_API_URL || DEFAULT_TARGET).replace(/\/+$/, "");
+
+  return (req, res, next) => {
+    const url = req.url || "";
+    if (url !== ROUTE_PREFIX && !url.startsWith(`${ROUTE_PREFIX}/`) && !url.startsWith(`${ROUTE_PREFIX}?`)) {
+      next();
+      return;
+    }
+
+    const forward = async () => {
+      const hasBody = req.method !== "GET" && req.method !== "HEAD";
+      const body = hasBody ? await readBody(req, MAX_BODY_BYTES) : undefined;
+
+      const controller = new AbortController();
+      res.on("close", () => {
+        if (!res.writableFinished) controller.abort();
+      });
+
+      const upstream = await fetch(`${target}${url.slice(ROUTE_PREFIX.length)}`, {
+        method: req.method,
+        headers: forwardHeaders(req),
+        body,
+        signal: controller.signal,
+      });
+
+      res.statusCode = upstream.status;
+      upstream.headers.forEach((value, name) => {
+        if (!SKIPPED_RESPONSE_HEADERS.has(name)) res.setHeader(name, value);
+      });
+
+      if (upstream.body) {
+        for await (const chunk of upstream.body) {
+          res.write(chunk);
+        }
+      }
+      res.end();
+    };
+
+    forward().catch((err) => {
+      if (res.headersSent) {
+        res.end();
+      } else {
+        sendJSON(res, 502, { error: `CData proxy error: ${err instanceof Error ? err.message : String(err)}` });
+      }
+    });
+  };
+}
@@ -0,0 +1,14 @@
+// Prints a password hash for users.json:
+//
+//   npm run hash-password -- 'correct horse battery staple'
+
+import { hashPassword } from "./users.js";
+
+const password = process.argv[2];
+
+if (!password) {
+  console.error("Usage: npm run hash-password -- <password>");
+  process.exit(1);
+}
+
+hashPassword(password).then((hash) => console.log(hash));
@@ -0,0 +1,103 @@
+// Small helpers shared by the Vite dev middleware and the production server
+
+import type { IncomingMessage, ServerResponse } from "http";
+import type { TLSSocket } from "tls";
+import type { AuthUser } from "./users.js";
+
+export type ServerEnv = Record<string, string | undefined>;
+
+// Connect-style middleware, compatible with Vite's `server.middlewares.use`
+export type Middleware = (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
+
+export function sendJSON(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+// Signed-in user for each request, resolved from the session cookie by the auth middleware
+const requestUsers = new WeakMap<IncomingMessage, AuthUser>();
+
+export function setRequestUser(req: IncomingMessage, user: AuthUser) {
+  requestUsers.set(req, user);
+}
+
+export function getRequestUser(req: IncomingMessage): AuthUser | undefined {
+  return requestUsers.get(req);
+}
+
+export function parseCookies(req: IncomingMessage): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const index = part.indexOf("=");
+    if (index === -1) continue;
+    const name = part.slice(0, index).trim();
+    if (name && !(name in cookies)) {
+      cookies[name] = decodeURIComponent(part.slice(index + 1).trim());
+    }
+  }
+  return cookies;
+}
+
+// True when the browser reached us over HTTPS, directly or through a proxy
+export function isSecureRequest(req: IncomingMessage): boolean {
+  const forwarded = req.headers["x-forwarded-proto"];
+  const proto = Array.isArray(forwarded) ? forwarded[0] : forwarded;
+  return proto?.split(",")[0].trim() === "https" || !!(req.socket as TLSSocket).encrypted;
+}
+
+export function getRequestOrigin(req: IncomingMessage): string {
+  return `${isSecureRequest(req) ? "https" : "http"}://${req.headers.host || "localhost"}`;
+}
+
+export function redirect(res: ServerResponse, location: string) {
+  res.statusCode = 302;
+  res.setHeader("Location", location);
+  res.end();
+}
+
+// Read the request body, rejecting anything over `limitBytes`
+export function readBody(req: IncomingMessage, limitBytes: number): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limitBytes) {
+        reject(new Error("Request body too large"));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+// Run middlewares in order until one handles the request. A middleware that throws
+// gets a 500 response instead of taking the process down.
+export function chain(middlewares: Middleware[], fallback: (req: IncomingMessage, res: ServerResponse) => void) {
+  return (req: IncomingMessage, res: ServerResponse) => {
+    let index = 0;
+    const next = () => {
+      try {
+        const middleware = middlewares[index++];
+        if (middleware) {
+          middleware(req, res, next);
+        } else {
+          fallback(req, res);
+        }
+      } catch (err) {
+        console.error(`Request to ${req.url} failed:`, err);
+        if (res.headersSent) {
+          res.end();
+        } else {
+          sendJSON(res, 500, { error: "Internal server error" });
+        }
+      }
+    };
+    next();
+  };
+}
@@ -0,0 +1,43 @@
+// Production server: serves the built SPA plus the API routes the app expects
+// (/api/auth/*, /api/jwt, /api/llm/*, /api/permissions, /api/mcp-servers, /api/audit, /cdata-api/*). The Vite dev server mounts the same routes.
+//
+//   npm run build && npm run build:server && npm start
+
+import fs from "fs";
+import http from "http";
+import path from "path";
+import { chain } from "./http.js";
+import { createAuditHandler } from "./audit.js";
+import { createAuthHandler } from "./auth.js";
+import { createCDataProxy } from "./cdataProxy.js";
+import { createJWTHandler } from "./jwt.js";
+import { createLLMProxy } from "./llmProxy.js";
+import { createMCPServersHandler } from "./mcpServers.js";
+import { createPermissionsHandler } from "./permissions.js";
+import { createStaticHandler } from "./static.js";
+
+// Same .env file the Vite dev server reads
+if (fs.existsSync(".env")) {
+  process.loadEnvFile(".env");
+}
+
+const env = process.env;
+const port = Number(env.PORT) || 3000;
+const distDir = path.resolve(env.DIST_DIR || "dist");
+
+if (!fs.existsSync(path.join(distDir, "index.html"))) {
+  console.error(`No build found in ${distDir}. Run "npm run build" first.`);
+  process.exit(1);
+}
+
+const server = http.createServer(
+  chain(
+    // Auth runs first: it resolves the session the other routes rely on
+    [createAuthHandler(env), createJWTHandler(env), createCDataProxy(env), createLLMProxy(env), createPermissionsHandler(env), createMCPServersHandler(env), createAuditHandler(env)],
+    createStaticHandler(distDir)
+  )
+);
+
+server.listen(port, () => {
+  console.log(`Sightline server listening on http://localhost:${port}`);
+});
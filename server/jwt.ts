@@ -0,0 +1,113 @@
+// CData "powered-by" JWT issuance. The private key only ever lives on the server;
+// the browser asks for tokens through /api/jwt.
+
+import { SignJWT, importPKCS8 } from "jose";
+import { getRequestUser, sendJSON, type Middleware, type ServerEnv } from "./http.js";
+import type { AuthUser } from "./users.js";
+
+// Tokens are valid for 2 hours
+const TOKEN_LIFETIME_SECONDS = 7200;
+
+// Unprefixed names keep the values out of the client bundle. The old VITE_ names
+// for the account and subscriber IDs are still read; they aren't secret.
+export function getCDataCredentials(env: ServerEnv) {
+  return {
+    accountId: env.CDATA_ACCOUNT_ID || env.VITE_CDATA_ACCOUNT_ID || "",
+    subscriberId: env.CDATA_SUBSCRIBER_ID || env.VITE_CDATA_SUBSCRIBER_ID || "",
+    privateKey: env.CDATA_PRIVATE_KEY || "",
+  };
+}
+
+// CDATA_SUBSCRIBER_ID is only needed when subscribers are shared
+export function hasCDataCredentials(env: ServerEnv): boolean {
+  const { accountId, subscriberId, privateKey } = getCDataCredentials(env);
+  const isShared = (env.CDATA_SUBSCRIBER_SCOPE || "shared") === "shared";
+  return !!(accountId && privateKey && (subscriberId || !isShared));
+}
+
+/**
+ * Maps a user to the CData subscriber their token is issued for (the JWT `sub`),
+ * based on CDATA_SUBSCRIBER_SCOPE:
+ * - shared (default): everyone uses CDATA_SUBSCRIBER_ID
+ * - user: each user is their own subscriber (sub = email)
+ * - tenant: users share their tenant's subscriber (sub = tenant from users.json or OIDC)
+ *
+ * Returns null when the user has no subscriber, e.g. no tenant in tenant scope;
+ * falling back to the shared subscriber there would expose another tenant's data.
+ */
+export function resolveSubscriber(env: ServerEnv, user: AuthUser): string | null {
+  switch (env.CDATA_SUBSCRIBER_SCOPE || "shared") {
+    case "user":
+      return user.email;
+    case "tenant":
+      return user.tenant || null;
+    default:
+      return getCDataCredentials(env).subscriberId;
+  }
+}
+
+export async function signCDataToken(env: ServerEnv, subscriber: string): Promise<string> {
+  const { accountId, privateKey } = getCDataCredentials(env);
+  if (!hasCDataCredentials(env)) {
+    throw new Error("Missing CData credentials");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    tokenType: "powered-by",
+    iat: now,
+    exp: now + TOKEN_LIFETIME_SECONDS,
+    iss: accountId,
+    sub: subscriber,
+  };
+
+  const key = await importPKCS8(privateKey, "RS256");
+  return new SignJWT(payload)
+    .setProtectedHeader({ alg: "RS256" })
+    .sign(key);
+}
+
+// GET /api/jwt -> { token }, GET /api/jwt/status -> { configured }
+export function createJWTHandler(env: ServerEnv): Middleware {
+  // Vite may build any VITE_ variable into the browser bundle, so a key under that
+  // name could already be public: refuse to start rather than sign with it
+  if (env.VITE_CDATA_PRIVATE_KEY) {
+    throw new Error(
+      "VITE_CDATA_PRIVATE_KEY is set. Rename it to CDATA_PRIVATE_KEY, and rotate the key if a build included it."
+    );
+  }
+
+  return (req, res, next) => {
+    if (req.method !== "GET") {
+      next();
+      return;
+    }
+
+    if (req.url === "/api/jwt/status") {
+      sendJSON(res, 200, { configured: hasCDataCredentials(env) });
+      return;
+    }
+
+    if (req.url !== "/api/jwt") {
+      next();
+      return;
+    }
+
+    // Tokens are only issued to signed-in users
+    const user = getRequestUser(req);
+    if (!user) {
+      sendJSON(res, 401, { error: "Not signed in" });
+      return;
+    }
+
+    const subscriber = resolveSubscriber(env, user);
+    if (!subscriber) {
+      sendJSON(res, 403, { error: `No CData subscriber is mapped to ${user.email}` });
+      return;
+    }
+
+    signCDataToken(env, subscriber)
+      .then((token) => sendJSON(res, 200, { token }))
+      .catch((err) => sendJSON(res, 500, { error: err instanceof Error ? err.message : String(err) }));
+  };
+}
@@ -0,0 +1,166 @@
+// Server-side LLM proxy: forwards model requests and injects the API key,
+// so keys stay out of the browser bundle. Requests are rate limited per user.
+
+import type { IncomingMessage, ServerResponse } from "http";
+import { getRequestUser, readBody, sendJSON, type Middleware, type ServerEnv } from "./http.js";
+
+const ROUTE_PREFIX = "/api/llm/";
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const DEFAULT_RATE_LIMIT_PER_MINUTE = 30;
+
+interface Upstream {
+  baseUrl: string;
+  apiKey: string;
+  // Only these endpoints are forwarded
+  paths: string[];
+  headers: (apiKey: string) => Record<string, string>;
+}
+
+// A Map, so provider names from the URL can't reach Object.prototype members
+function getUpstreams(env: ServerEnv): Map<string, Upstream> {
+  return new Map(Object.entries({
+    anthropic: {
+      baseUrl: "https://api.anthropic.com/v1",
+      apiKey: env.ANTHROPIC_API_KEY || "",
+      paths: ["/messages"],
+      headers: (apiKey) => ({ "x-api-key": apiKey, "anthropic-version": "2023-06-01" }),
+    },
+    openai: {
+      baseUrl: (env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/+$/, ""),
+      apiKey: env.OPENAI_API_KEY || "",
+      paths: ["/chat/completions"],
+      headers: (apiKey) => ({ Authorization: `Bearer ${apiKey}` }),
+    },
+  } satisfies Record<string, Upstream>));
+}
+
+// Sliding-window request counter keyed by user. Users idle for a whole window are
+// dropped once per window, so the map only holds recently active users.
+function createRateLimiter(limit: number, windowMs: number) {
+  const requests = new Map<string, number[]>();
+  let lastSweep = Date.now();
+
+  return (key: string): { allowed: boolean; retryAfterSeconds: number } => {
+    const now = Date.now();
+    if (now - lastSweep >= windowMs) {
+      for (const [user, times] of requests) {
+        if (now - times[times.length - 1] >= windowMs) requests.delete(user);
+      }
+      lastSweep = now;
+    }
+    const recent = (requests.get(key) || []).filter((time) => now - time < windowMs);
+
+    if (recent.length >= limit) {
+      requests.set(key, recent);
+      return { allowed: false, retryAfterSeconds: Math.ceil((recent[0] + windowMs - now) / 1000) };
+    }
+
+    recent.push(now);
+    requests.set(key, recent);
+    return { allowed: true, retryAfterSeconds: 0 };
+  };
+}
+
+async function forward(req: IncomingMessage, res: ServerResponse, upstream: Upstream, path: string) {
+  let body: Buffer;
+  try {
+    body = await readBody(req, MAX_BODY_BYTES);
+  } catch (err) {
+    sendJSON(res, 413, { error: err instanceof Error ? err.message : String(err) });
+    return;
+  }
+
+  // Stop the upstream request if the browser goes away (e.g. the user pressed Stop)
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
+  try {
+    const upstreamResponse = await fetch(`${upstream.baseUrl}${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: req.headers.accept || "application/json",
+        ...upstream.headers(upstream.apiKey),
+      },
+      body,
+      signal: controller.signal,
+    });
+
+    res.statusCode = upstreamResponse.status;
+    res.setHeader("Content-Type", upstreamResponse.headers.get("content-type") || "application/json");
+    res.setHeader("Cache-Control", "no-cache");
+
+    if (!upstreamResponse.body) {
+      res.end();
+      return;
+    }
+
+    // Pass streamed responses through as they arrive
+    for await (const chunk of upstreamResponse.body) {
+      res.write(chunk);
+    }
+    res.end();
+  } catch (err) {
+    if (controller.signal.aborted) return;
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendJSON(res, 502, { error: `LLM proxy error: ${err instanceof Error ? err.message : String(err)}` });
+    }
+  }
+}
+
+/**
+ * Handles `POST /api/llm/<provider>/<endpoint>` (e.g. `/api/llm/anthropic/messages`).
+ * Keys come from ANTHROPIC_API_KEY / OPENAI_API_KEY; the limit from LLM_RATE_LIMIT_PER_MINUTE.
+ */
+export function createLLMProxy(env: ServerEnv): Middleware {
+  const upstreams = getUpstreams(env);
+  const limit = Number(env.LLM_RATE_LIMIT_PER_MINUTE) || DEFAULT_RATE_LIMIT_PER_MINUTE;
+  const takeRequest = createRateLimiter(limit, RATE_LIMIT_WINDOW_MS);
+
+  return (req, res, next) => {
+    const url = req.url?.split("?")[0] || "";
+    if (!url.startsWith(ROUTE_PREFIX)) {
+      next();
+      return;
+    }
+
+    const user = getRequestUser(req);
+    if (!user) {
+      sendJSON(res, 401, { error: "Not signed in" });
+      return;
+    }
+
+    const [provider, ...rest] = url.slice(ROUTE_PREFIX.length).split("/");
+    const path = `/${rest.join("/")}`;
+    const upstream = upstreams.get(provider);
+
+    if (!upstream || !upstream.paths.includes(path)) {
+      sendJSON(res, 404, { error: `Unknown LLM endpoint: ${url}` });
+      return;
+    }
+    if (req.method !== "POST") {
+      sendJSON(res, 405, { error: "Method not allowed" });
+      return;
+    }
+    if (!upstream.apiKey) {
+      sendJSON(res, 500, { error: `LLM proxy is not configured for ${provider}: missing API key` });
+      return;
+    }
+
+    const { allowed, retryAfterSeconds } = takeRequest(user.email);
+    if (!allowed) {
+      res.setHeader("Retry-After", String(retryAfterSeconds));
+      sendJSON(res, 429, {
+        error: `Rate limit exceeded: ${limit} requests per minute. Try again in ${retryAfterSeconds}s.`,
+      });
+      return;
+    }
+
+    forward(req, res, upstream, path);
+  };
+}
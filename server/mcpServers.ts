@@ -0,0 +1,366 @@
+// Other MCP servers the AI Data Advisor can use alongside CData. Stored in
+// MCP_SERVERS_FILE (default mcp-servers.json) and edited by admins under
+// Settings > MCP Servers. Browsers reach them through this server, which adds the
+// server's Authorization header, so the header never leaves the server.
+
+import fs from "fs";
+import type { IncomingMessage, ServerResponse } from "http";
+import path from "path";
+import { getRequestUser, readBody, sendJSON, type Middleware, type ServerEnv } from "./http.js";
+import { isReadOnlyTool } from "./toolAccess.js";
+import { ADMIN_ROLE } from "./users.js";
+
+const ROUTE = "/api/mcp-servers";
+// POST/GET/DELETE /api/mcp-servers/<id>/mcp is forwarded to the server's URL
+const PROXY_ROUTE_PATTERN = /^\/api\/mcp-servers\/([^/?]+)\/mcp(?:\?.*)?$/;
+const MAX_CONFIG_BYTES = 64 * 1024;
+const MAX_MESSAGE_BYTES = 10 * 1024 * 1024;
+
+// Must match src/lib/mcpServers.ts
+const SERVER_ID_PATTERN = /^[a-zA-Z0-9]+(-[a-zA-Z0-9]+)*$/;
+const MAX_SERVER_ID_LENGTH = 20;
+
+// What the Streamable HTTP transport needs; the browser's cookies stay here
+const FORWARDED_REQUEST_HEADERS = new Set(["content-type", "accept", "mcp-session-id", "mcp-protocol-version", "last-event-id"]);
+// Hop-by-hop headers, plus ones that no longer apply once fetch has decoded the body
+const SKIPPED_RESPONSE_HEADERS = new Set(["connection", "content-encoding", "content-length", "transfer-encoding", "set-cookie"]);
+
+export interface MCPServerConfig {
+  // Namespace for the server's tools
+  id: string;
+  url: string;
+  // Sent as the Authorization header, e.g. "Bearer <token>"
+  authHeader?: string;
+  enabled: boolean;
+}
+
+// What browsers get: everything except the header itself
+interface PublicMCPServer {
+  id: string;
+  url: string;
+  enabled: boolean;
+  hasAuthHeader: boolean;
+}
+
+// A JSON-RPC request or response as relayed
+interface RPCMessage {
+  id?: number | string;
+  method?: string;
+  params?: { name?: unknown };
+  result?: { tools?: Array<{ name?: unknown; annotations?: { readOnlyHint?: boolean } }> };
+}
+
+// Tool annotations seen in each server's tools/list responses, by server id
+interface ToolCatalog {
+  url: string;
+  annotations: Map<string, { readOnlyHint?: boolean }>;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Returns a description of the first problem, or null when the list is valid
+export function validateMCPServers(value: unknown): string | null {
+  if (!Array.isArray(value)) {
+    return "Expected a list of servers";
+  }
+
+  const ids = new Set<string>();
+  for (const server of value) {
+    if (!isPlainObject(server) || typeof server.id !== "string") {
+      return "Every server needs a name";
+    }
+    if (!SERVER_ID_PATTERN.test(server.id) || server.id.length > MAX_SERVER_ID_LENGTH) {
+      return `Invalid name "${server.id}": use up to ${MAX_SERVER_ID_LENGTH} letters, digits or hyphens`;
+    }
+    if (ids.has(server.id.toLowerCase())) {
+      return `A server named "${server.id}" already exists`;
+    }
+    ids.add(server.id.toLowerCase());
+
+    let url: URL;
+    try {
+      url = new URL(String(server.url));
+    } catch {
+      return `Server "${server.id}" has an invalid URL`;
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return `Server "${server.id}" must use http or https`;
+    }
+    if (server.authHeader !== undefined && typeof server.authHeader !== "string") {
+      return `Server "${server.id}" has an invalid Authorization header`;
+    }
+    if (typeof server.enabled !== "boolean") {
+      return `Server "${server.id}" needs an enabled flag`;
+    }
+  }
+
+  return null;
+}
+
+function toPublic(server: MCPServerConfig): PublicMCPServer {
+  return { id: server.id, url: server.url, enabled: server.enabled, hasAuthHeader: !!server.authHeader };
+}
+
+export function createMCPServerStore(env: ServerEnv) {
+  const filePath = path.resolve(env.MCP_SERVERS_FILE || "mcp-servers.json");
+
+  const load = async (): Promise<MCPServerConfig[]> => {
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+    const parsed: unknown = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+    const problem = validateMCPServers(parsed);
+    if (problem) {
+      throw new Error(`${filePath}: ${problem}`);
+    }
+    return parsed as MCPServerConfig[];
+  };
+
+  // Write to a temporary file first so a crash never leaves a half-written list
+  const save = async (servers: MCPServerConfig[]) => {
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, `${JSON.stringify(servers, null, 2)}\n`);
+    await fs.promises.rename(tempPath, filePath);
+  };
+
+  return { load, save };
+}
+
+// A relayed body holds one JSON-RPC message or a batch
+function parseMessages(body: Buffer): RPCMessage[] | null {
+  try {
+    const parsed: unknown = JSON.parse(body.toString("utf8"));
+    const messages = Array.isArray(parsed) ? parsed : [parsed];
+    return messages.every(isPlainObject) ? (messages as RPCMessage[]) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Messages in a response, sent either as JSON or as server-sent events
+function parseResponseMessages(text: string, contentType: string | null): RPCMessage[] {
+  const payloads = contentType?.includes("text/event-stream")
+    ? text
+        .replace(/\r\n?/g, "\n")
+        .split("\n\n")
+        .map((event) =>
+          event
+            .split("\n")
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.slice(5).trimStart())
+            .join("\n")
+        )
+    : [text];
+
+  const messages: RPCMessage[] = [];
+  for (const payload of payloads) {
+    if (!payload) continue;
+    try {
+      const parsed: unknown = JSON.parse(payload);
+      for (const message of Array.isArray(parsed) ? parsed : [parsed]) {
+        if (isPlainObject(message)) messages.push(message as RPCMessage);
+      }
+    } catch {
+      // Not a JSON-RPC message
+    }
+  }
+  return messages;
+}
+
+function forwardHeaders(req: IncomingMessage, server: MCPServerConfig): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (value === undefined || !FORWARDED_REQUEST_HEADERS.has(name)) continue;
+    headers[name] = Array.isArray(value) ? value.join(", ") : value;
+  }
+  if (server.authHeader) headers.authorization = server.authHeader;
+  return headers;
+}
+
+/**
+ * GET /api/mcp-servers -> every server for admins, only the enabled ones otherwise.
+ *   Authorization headers are never returned, only whether one is set.
+ * PUT /api/mcp-servers (admins only) replaces the list. A server sent without
+ *   `authHeader` keeps the one already saved under its name and URL.
+ * POST/GET/DELETE /api/mcp-servers/<id>/mcp forwards MCP traffic to an enabled server
+ *   for any signed-in user. Non-admins can only call tools that read (server/toolAccess.ts),
+ *   judged by the annotations from the server's tools/list responses relayed here.
+ */
+export function createMCPServersHandler(env: ServerEnv): Middleware {
+  const store = createMCPServerStore(env);
+
+  const handleError = (res: ServerResponse, err: unknown) => {
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendJSON(res, 500, { error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const catalogs = new Map<string, ToolCatalog>();
+
+  const getCatalog = (server: MCPServerConfig): ToolCatalog => {
+    let catalog = catalogs.get(server.id);
+    if (!catalog || catalog.url !== server.url) {
+      catalog = { url: server.url, annotations: new Map() };
+      catalogs.set(server.id, catalog);
+    }
+    return catalog;
+  };
+
+  // The first tools/call the caller may not make: non-admins only run tools that read.
+  // A tool never seen in a tools/list response is judged by its name alone.
+  const findBlockedCall = (messages: RPCMessage[], server: MCPServerConfig): string | undefined => {
+    const { annotations } = getCatalog(server);
+    for (const message of messages) {
+      if (message.method !== "tools/call") continue;
+      const name = typeof message.params?.name === "string" ? message.params.name : "";
+      if (!isReadOnlyTool(name, annotations.get(name))) return name || "(unnamed tool)";
+    }
+    return undefined;
+  };
+
+  const recordTools = (messages: RPCMessage[], listIds: Set<RPCMessage["id"]>, server: MCPServerConfig) => {
+    const { annotations } = getCatalog(server);
+    for (const message of messages) {
+      if (!listIds.has(message.id) || !Array.isArray(message.result?.tools)) continue;
+      for (const tool of message.result.tools) {
+        if (typeof tool?.name === "string") annotations.set(tool.name, isPlainObject(tool.annotations) ? tool.annotations : {});
+      }
+    }
+  };
+
+  const proxy = async (req: IncomingMessage, res: ServerResponse, id: string, isAdmin: boolean) => {
+    const server = (await store.load()).find((candidate) => candidate.enabled && candidate.id === id);
+    if (!server) {
+      sendJSON(res, 404, { error: `No enabled MCP server named "${id}"` });
+      return;
+    }
+
+    const hasBody = req.method !== "GET" && req.method !== "HEAD";
+    const body = hasBody ? await readBody(req, MAX_MESSAGE_BYTES) : undefined;
+
+    let listIds = new Set<RPCMessage["id"]>();
+    if (body && req.method === "POST") {
+      const messages = parseMessages(body);
+      if (!messages) {
+        sendJSON(res, 400, { error: "Expected a JSON-RPC message" });
+        return;
+      }
+      const blocked = isAdmin ? undefined : findBlockedCall(messages, server);
+      if (blocked) {
+        sendJSON(res, 403, { error: `Your role can only use tools that read data; "${blocked}" may change data` });
+        return;
+      }
+      listIds = new Set(messages.filter((message) => message.method === "tools/list").map((message) => message.id));
+    }
+
+    const controller = new AbortController();
+    res.on("close", () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    let upstream: Response;
+    try {
+      upstream = await fetch(server.url, {
+        method: req.method,
+        headers: forwardHeaders(req, server),
+        body,
+        signal: controller.signal,
+      });
+    } catch (err) {
+      sendJSON(res, 502, { error: `MCP server "${id}" is unreachable: ${err instanceof Error ? err.message : String(err)}` });
+      return;
+    }
+
+    res.statusCode = upstream.status;
+    upstream.headers.forEach((value, name) => {
+      if (!SKIPPED_RESPONSE_HEADERS.has(name)) res.setHeader(name, value);
+    });
+
+    // Tool lists are also read here, for the annotations findBlockedCall relies on
+    const decoder = listIds.size > 0 ? new TextDecoder() : null;
+    let text = "";
+    if (upstream.body) {
+      for await (const chunk of upstream.body) {
+        res.write(chunk);
+        if (decoder) text += decoder.decode(chunk, { stream: true });
+      }
+    }
+    res.end();
+    if (decoder) {
+      text += decoder.decode();
+      recordTools(parseResponseMessages(text, upstream.headers.get("content-type")), listIds, server);
+    }
+  };
+
+  const update = async (req: IncomingMessage, res: ServerResponse) => {
+    let servers: unknown;
+    try {
+      servers = JSON.parse((await readBody(req, MAX_CONFIG_BYTES)).toString("utf8"));
+    } catch {
+      sendJSON(res, 400, { error: "Invalid request body" });
+      return;
+    }
+
+    const problem = validateMCPServers(servers);
+    if (problem) {
+      sendJSON(res, 400, { error: problem });
+      return;
+    }
+
+    const saved = await store.load();
+    const merged = (servers as MCPServerConfig[]).map((server): MCPServerConfig => {
+      const previous = saved.find((existing) => existing.id === server.id && existing.url === server.url);
+      const authHeader = server.authHeader ?? previous?.authHeader;
+      return { id: server.id, url: server.url, enabled: server.enabled, ...(authHeader ? { authHeader } : {}) };
+    });
+    await store.save(merged);
+    sendJSON(res, 200, merged.map(toPublic));
+  };
+
+  return (req, res, next) => {
+    const url = req.url || "";
+    const proxyMatch = PROXY_ROUTE_PATTERN.exec(url);
+    if (url.split("?")[0] !== ROUTE && !proxyMatch) {
+      next();
+      return;
+    }
+
+    const user = getRequestUser(req);
+    if (!user) {
+      sendJSON(res, 401, { error: "Not signed in" });
+      return;
+    }
+    const isAdmin = user.role === ADMIN_ROLE;
+
+    if (proxyMatch) {
+      proxy(req, res, proxyMatch[1], isAdmin).catch((err) => handleError(res, err));
+      return;
+    }
+
+    if (req.method === "GET") {
+      store
+        .load()
+        .then((servers) => {
+          const visible = isAdmin ? servers : servers.filter((server) => server.enabled);
+          sendJSON(res, 200, visible.map(toPublic));
+        })
+        .catch((err) => handleError(res, err));
+      return;
+    }
+
+    if (req.method === "PUT") {
+      if (!isAdmin) {
+        sendJSON(res, 403, { error: "Only admins can change MCP servers" });
+        return;
+      }
+      update(req, res).catch((err) => handleError(res, err));
+      return;
+    }
+
+    sendJSON(res, 405, { error: "Method not allowed" });
+  };
+}
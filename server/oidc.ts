@@ -0,0 +1,167 @@
+// OpenID Connect sign-in (authorization code flow with PKCE). Enabled when
+// OIDC_ISSUER and OIDC_CLIENT_ID are set; works with any provider that
+// publishes /.well-known/openid-configuration (Okta, Entra ID, Google, Keycloak, ...).
+
+import crypto from "crypto";
+import type { IncomingMessage } from "http";
+import { createRemoteJWKSet, jwtVerify } from "jose";
+import { getRequestOrigin, type ServerEnv } from "./http.js";
+
+export const OIDC_LOGIN_PATH = "/api/auth/oidc/login";
+export const OIDC_CALLBACK_PATH = "/api/auth/oidc/callback";
+
+// How long the user has to finish signing in at the provider
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface PendingLogin {
+  nonce: string;
+  codeVerifier: string;
+  redirectUri: string;
+  expiresAt: number;
+}
+
+export interface OIDCIdentity {
+  email: string;
+  name?: string;
+  tenant?: string;
+}
+
+function randomToken(): string {
+  return crypto.randomBytes(32).toString("base64url");
+}
+
+export function createOIDCClient(env: ServerEnv) {
+  const issuer = env.OIDC_ISSUER?.replace(/\/+$/, "");
+  const clientId = env.OIDC_CLIENT_ID;
+  if (!issuer || !clientId) {
+    return null;
+  }
+
+  const clientSecret = env.OIDC_CLIENT_SECRET;
+  const scopes = env.OIDC_SCOPES || "openid email profile";
+  const label = env.OIDC_PROVIDER_NAME || "SSO";
+  // ID token claim naming the user's organization, e.g. "tid" (Entra ID) or "org_id"
+  const tenantClaim = env.OIDC_TENANT_CLAIM;
+  const pendingLogins = new Map<string, PendingLogin>();
+
+  // Discovery is fetched once; a failed fetch is retried on the next sign-in
+  let metadataPromise: Promise<ProviderMetadata> | null = null;
+  let jwks: ReturnType<typeof createRemoteJWKSet> | null = null;
+
+  const getMetadata = () => {
+    if (!metadataPromise) {
+      metadataPromise = fetch(`${issuer}/.well-known/openid-configuration`)
+        .then(async (response) => {
+          if (!response.ok) {
+            throw new Error(`OIDC discovery failed (${response.status})`);
+          }
+          const metadata = (await response.json()) as ProviderMetadata;
+          jwks = createRemoteJWKSet(new URL(metadata.jwks_uri));
+          return metadata;
+        })
+        .catch((err) => {
+          metadataPromise = null;
+          throw err;
+        });
+    }
+    return metadataPromise;
+  };
+
+  const prunePendingLogins = () => {
+    const now = Date.now();
+    for (const [state, pending] of pendingLogins) {
+      if (pending.expiresAt <= now) pendingLogins.delete(state);
+    }
+  };
+
+  // URL to send the browser to at the provider
+  const getAuthorizationURL = async (req: IncomingMessage): Promise<string> => {
+    const metadata = await getMetadata();
+    prunePendingLogins();
+
+    const state = randomToken();
+    const nonce = randomToken();
+    const codeVerifier = randomToken();
+    const redirectUri = env.OIDC_REDIRECT_URI || `${getRequestOrigin(req)}${OIDC_CALLBACK_PATH}`;
+    pendingLogins.set(state, { nonce, codeVerifier, redirectUri, expiresAt: Date.now() + PENDING_LOGIN_TTL_MS });
+
+    const url = new URL(metadata.authorization_endpoint);
+    url.search = new URLSearchParams({
+      response_type: "code",
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      scope: scopes,
+      state,
+      nonce,
+      code_challenge: crypto.createHash("sha256").update(codeVerifier).digest("base64url"),
+      code_challenge_method: "S256",
+    }).toString();
+    return url.toString();
+  };
+
+  // Exchange the authorization code and verify the ID token
+  const handleCallback = async (params: URLSearchParams): Promise<OIDCIdentity> => {
+    const providerError = params.get("error");
+    if (providerError) {
+      throw new Error(params.get("error_description") || providerError);
+    }
+
+    const state = params.get("state") || "";
+    const pending = pendingLogins.get(state);
+    pendingLogins.delete(state);
+    if (!pending || pending.expiresAt <= Date.now()) {
+      throw new Error("Sign-in expired, please try again");
+    }
+
+    const metadata = await getMetadata();
+    const headers: Record<string, string> = { "Content-Type": "application/x-www-form-urlencoded" };
+    if (clientSecret) {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`;
+      headers.Authorization = `Basic ${Buffer.from(credentials).toString("base64")}`;
+    }
+
+    const tokenResponse = await fetch(metadata.token_endpoint, {
+      method: "POST",
+      headers,
+      body: new URLSearchParams({
+        grant_type: "authorization_code",
+        code: params.get("code") || "",
+        redirect_uri: pending.redirectUri,
+        client_id: clientId,
+        code_verifier: pending.codeVerifier,
+      }),
+    });
+    if (!tokenResponse.ok) {
+      throw new Error(`OIDC token exchange failed (${tokenResponse.status})`);
+    }
+
+    const { id_token: idToken } = (await tokenResponse.json()) as { id_token?: unknown };
+    if (typeof idToken !== "string" || !jwks) {
+      throw new Error("OIDC provider did not return an ID token");
+    }
+
+    const { payload } = await jwtVerify(idToken, jwks, { issuer: metadata.issuer, audience: clientId });
+    if (payload.nonce !== pending.nonce) {
+      throw new Error("OIDC nonce mismatch");
+    }
+    if (typeof payload.email !== "string" || payload.email_verified === false) {
+      throw new Error("Your account has no verified email address");
+    }
+
+    const tenant = tenantClaim ? payload[tenantClaim] : undefined;
+    return {
+      email: payload.email.trim().toLowerCase(),
+      name: typeof payload.name === "string" ? payload.name : undefined,
+      tenant: typeof tenant === "string" && tenant ? tenant : undefined,
+    };
+  };
+
+  return { label, getAuthorizationURL, handleCallback };
+}
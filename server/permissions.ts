@@ -0,0 +1,206 @@
+// Role-based schema permissions: which schemas, tables and columns each role may see.
+// Stored in SCHEMA_PERMISSIONS_FILE (default schema-permissions.json) and edited by
+// admins under Settings > Schema Permissions. Admins always have full access.
+
+import fs from "fs";
+import type { ServerResponse } from "http";
+import path from "path";
+import { getRequestUser, readBody, sendJSON, type Middleware, type ServerEnv } from "./http.js";
+import { ADMIN_ROLE } from "./users.js";
+
+const ROUTE = "/api/permissions";
+const MAX_BODY_BYTES = 1024 * 1024;
+const ROLE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+// Must match src/lib/permissions.ts. "*" grants everything below that level.
+export type TableAccess = "*" | string[];
+export type SchemaAccess = "*" | Record<string, TableAccess>;
+
+export interface RolePolicy {
+  label: string;
+  // Schema -> Table -> Columns
+  schemas: Record<string, SchemaAccess>;
+  // Schema -> Table -> SQL predicate applied to every query on that table
+  rowFilters?: Record<string, Record<string, string>>;
+}
+
+export interface PermissionsDocument {
+  roles: Record<string, RolePolicy>;
+}
+
+// Used until an admin saves a policy
+const DEFAULT_PERMISSIONS: PermissionsDocument = {
+  roles: {
+    user: {
+      label: "User",
+      schemas: {
+        Salesforce: {
+          Account: ["Id", "Name", "Industry", "AnnualRevenue", "Rating", "CustomerPriority__c", "Active__c"],
+          Opportunity: ["Id", "Name", "Amount", "CloseDate", "StageName", "Probability", "AccountId", "IsClosed"],
+        },
+        Zendesk: {
+          Tickets: ["Id", "Priority", "Status", "AccountId"],
+        },
+        TELEMETRY: {
+          SYNC_USAGE: ["LASTTELEMETRYEVENT", "S_STANDARDJOBRUNS", "REVENUEBUCKETLAST12M", "ACCOUNT_ID"],
+        },
+      },
+    },
+  },
+};
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === "string");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Returns a description of the first problem, or null when the document is valid
+export function validatePermissions(value: unknown): string | null {
+  if (!isPlainObject(value) || !isPlainObject(value.roles)) {
+    return "Expected an object with a roles map";
+  }
+
+  for (const [roleId, policy] of Object.entries(value.roles)) {
+    if (roleId === ADMIN_ROLE) {
+      return `The ${ADMIN_ROLE} role always has full access and cannot be configured`;
+    }
+    if (!ROLE_ID_PATTERN.test(roleId)) {
+      return `Invalid role id "${roleId}": use letters, digits, "-" and "_"`;
+    }
+    if (!isPlainObject(policy) || typeof policy.label !== "string" || !policy.label.trim()) {
+      return `Role "${roleId}" needs a label`;
+    }
+    if (!isPlainObject(policy.schemas)) {
+      return `Role "${roleId}" needs a schemas map`;
+    }
+    for (const [schema, tables] of Object.entries(policy.schemas)) {
+      if (tables === "*") continue;
+      if (!isPlainObject(tables)) {
+        return `Invalid access for schema "${schema}" in role "${roleId}"`;
+      }
+      for (const [table, columns] of Object.entries(tables)) {
+        if (columns !== "*" && !isStringArray(columns)) {
+          return `Invalid columns for "${schema}.${table}" in role "${roleId}"`;
+        }
+      }
+    }
+    if (policy.rowFilters !== undefined) {
+      if (!isPlainObject(policy.rowFilters)) {
+        return `Role "${roleId}" has an invalid rowFilters map`;
+      }
+      for (const [schema, tables] of Object.entries(policy.rowFilters)) {
+        if (!isPlainObject(tables)) {
+          return `Invalid row filters for schema "${schema}" in role "${roleId}"`;
+        }
+        for (const [table, predicate] of Object.entries(tables)) {
+          if (typeof predicate !== "string" || !predicate.trim()) {
+            return `Row filter for "${schema}.${table}" in role "${roleId}" must be a non-empty SQL condition`;
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+export function createPermissionsStore(env: ServerEnv) {
+  const filePath = path.resolve(env.SCHEMA_PERMISSIONS_FILE || "schema-permissions.json");
+
+  const load = async (): Promise<PermissionsDocument> => {
+    if (!fs.existsSync(filePath)) {
+      return DEFAULT_PERMISSIONS;
+    }
+    const parsed: unknown = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+    const problem = validatePermissions(parsed);
+    if (problem) {
+      throw new Error(`${filePath}: ${problem}`);
+    }
+    return parsed as PermissionsDocument;
+  };
+
+  // Write to a temporary file first so a crash never leaves a half-written policy
+  const save = async (document: PermissionsDocument) => {
+    const tempPath = `${filePath}.tmp`;
+    await fs.promises.writeFile(tempPath, `${JSON.stringify(document, null, 2)}\n`);
+    await fs.promises.rename(tempPath, filePath);
+  };
+
+  return { load, save };
+}
+
+/**
+ * GET /api/permissions -> the full document for admins, only the caller's own role otherwise.
+ * PUT /api/permissions (admins only) replaces the document.
+ */
+export function createPermissionsHandler(env: ServerEnv): Middleware {
+  const store = createPermissionsStore(env);
+
+  const handleError = (res: ServerResponse, err: unknown) => {
+    if (!res.headersSent) {
+      sendJSON(res, 500, { error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  return (req, res, next) => {
+    if (req.url?.split("?")[0] !== ROUTE) {
+      next();
+      return;
+    }
+
+    const user = getRequestUser(req);
+    if (!user) {
+      sendJSON(res, 401, { error: "Not signed in" });
+      return;
+    }
+    const isAdmin = user.role === ADMIN_ROLE;
+
+    if (req.method === "GET") {
+      store
+        .load()
+        .then((document) => {
+          if (isAdmin) {
+            sendJSON(res, 200, document);
+            return;
+          }
+          const ownPolicy = document.roles[user.role];
+          sendJSON(res, 200, { roles: ownPolicy ? { [user.role]: ownPolicy } : {} });
+        })
+        .catch((err) => handleError(res, err));
+      return;
+    }
+
+    if (req.method === "PUT") {
+      if (!isAdmin) {
+        sendJSON(res, 403, { error: "Only admins can change permissions" });
+        return;
+      }
+
+      const update = async () => {
+        let document: unknown;
+        try {
+          document = JSON.parse((await readBody(req, MAX_BODY_BYTES)).toString("utf8"));
+        } catch {
+          sendJSON(res, 400, { error: "Invalid request body" });
+          return;
+        }
+
+        const problem = validatePermissions(document);
+        if (problem) {
+          sendJSON(res, 400, { error: problem });
+          return;
+        }
+
+        await store.save(document as PermissionsDocument);
+        sendJSON(res, 200, document);
+      };
+      update().catch((err) => handleError(res, err));
+      return;
+    }
+
+    sendJSON(res, 405, { error: "Method not allowed" });
+  };
+}
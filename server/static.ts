@@ -0,0 +1,69 @@
+// Static file serving for the built SPA, with index.html fallback for client-side routes
+
+import fs from "fs";
+import path from "path";
+import type { IncomingMessage, ServerResponse } from "http";
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".html": "text/html; charset=utf-8",
+  ".js": "text/javascript; charset=utf-8",
+  ".css": "text/css; charset=utf-8",
+  ".json": "application/json",
+  ".svg": "image/svg+xml",
+  ".png": "image/png",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".ico": "image/x-icon",
+  ".webp": "image/webp",
+  ".woff": "font/woff",
+  ".woff2": "font/woff2",
+  ".txt": "text/plain; charset=utf-8",
+};
+
+function sendFile(res: ServerResponse, filePath: string, cacheControl: string) {
+  res.statusCode = 200;
+  res.setHeader("Content-Type", CONTENT_TYPES[path.extname(filePath).toLowerCase()] || "application/octet-stream");
+  res.setHeader("Cache-Control", cacheControl);
+  fs.createReadStream(filePath).pipe(res);
+}
+
+export function createStaticHandler(rootDir: string) {
+  const root = path.resolve(rootDir);
+  const indexPath = path.join(root, "index.html");
+
+  return (req: IncomingMessage, res: ServerResponse) => {
+    if (req.method !== "GET" && req.method !== "HEAD") {
+      res.statusCode = 405;
+      res.end();
+      return;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(new URL(req.url || "/", "http://localhost").pathname);
+    } catch {
+      res.statusCode = 400;
+      res.end();
+      return;
+    }
+
+    // Resolve inside the root only (no path traversal)
+    const filePath = path.join(root, path.normalize(pathname));
+    if (filePath.startsWith(root + path.sep) && fs.existsSync(filePath) && fs.statSync(filePath).isFile()) {
+      // Vite emits content-hashed file names under /assets
+      const immutable = pathname.startsWith("/assets/");
+      sendFile(res, filePath, immutable ? "public, max-age=31536000, immutable" : "no-cache");
+      return;
+    }
+
+    // Unknown API routes shouldn't fall through to the SPA
+    if (pathname.startsWith("/api/")) {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    sendFile(res, indexPath, "no-cache");
+  };
+}
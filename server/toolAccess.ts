@@ -0,0 +1,12 @@
+// Which MCP tools only read. One rule for the browser's read-only mode
+// (src/lib/writeProtection.ts) and the MCP server relay (mcpServers.ts), which
+// enforces it for non-admins. Imported from both sides, so it has no dependencies.
+
+// Tool names that only read (CData's getCatalogs, getTables, ... and similar)
+const READ_TOOL_PATTERN = /^(get|list|describe|search|find|read|fetch|lookup|count)[A-Z_]/;
+
+// `name` is the name the tool's own server knows it by. The server's readOnlyHint
+// annotation wins; otherwise the name decides. Unknown tools are writes.
+export function isReadOnlyTool(name: string, annotations?: { readOnlyHint?: boolean }): boolean {
+  return annotations?.readOnlyHint === true || READ_TOOL_PATTERN.test(name);
+}
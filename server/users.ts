@@ -0,0 +1,134 @@
+// Server-side user store: accounts live in a JSON file (AUTH_USERS_FILE, default
+// users.json) with scrypt password hashes. Create hashes with `npm run hash-password`.
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { promisify } from "util";
+import type { ServerEnv } from "./http.js";
+
+const scrypt = promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const HASH_PREFIX = "scrypt";
+
+// Demo accounts enabled by AUTH_DEMO_PASSWORD
+const DEMO_USERS: { email: string; role: UserRole }[] = [
+  { email: "admin@mycompany.com", role: "admin" },
+  { email: "user@mycompany.com", role: "user" },
+];
+
+// "admin" is built in and has full access; other roles are defined in server/permissions.ts
+export type UserRole = string;
+
+export const ADMIN_ROLE = "admin";
+
+// What the browser and the other routes get to see about a user
+export interface AuthUser {
+  email: string;
+  role: UserRole;
+  name?: string;
+  // Tenant the user belongs to; with CDATA_SUBSCRIBER_SCOPE=tenant it is their CData subscriber
+  tenant?: string;
+}
+
+interface StoredUser extends AuthUser {
+  passwordHash: string;
+}
+
+// Format: scrypt$<salt>$<key>, both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return [HASH_PREFIX, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [prefix, salt, key] = passwordHash.split("$");
+  if (prefix !== HASH_PREFIX || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "base64");
+  const actual = await scrypt(password, Buffer.from(salt, "base64"), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+function isStoredUser(value: unknown): value is StoredUser {
+  const user = value as StoredUser;
+  return (
+    typeof user?.email === "string" &&
+    typeof user.passwordHash === "string" &&
+    typeof user.role === "string" &&
+    user.role !== "" &&
+    (user.tenant === undefined || typeof user.tenant === "string")
+  );
+}
+
+function toAuthUser({ email, role, name, tenant }: StoredUser): AuthUser {
+  const user: AuthUser = { email, role };
+  if (name) user.name = name;
+  if (tenant) user.tenant = tenant;
+  return user;
+}
+
+export function createUserStore(env: ServerEnv) {
+  const filePath = path.resolve(env.AUTH_USERS_FILE || "users.json");
+
+  // Hash the demo password once; used for both demo accounts
+  const demoHash = env.AUTH_DEMO_PASSWORD ? hashPassword(env.AUTH_DEMO_PASSWORD) : null;
+  // Compared against when the email is unknown, so timing doesn't reveal which accounts exist
+  const dummyHash = hashPassword(crypto.randomBytes(16).toString("hex"));
+
+  if (!fs.existsSync(filePath) && !demoHash) {
+    console.warn(`No users configured: create ${filePath} or set AUTH_DEMO_PASSWORD`);
+  }
+
+  // Read on every lookup so edits to the file apply without a restart
+  const loadUsers = async (): Promise<StoredUser[]> => {
+    const users: StoredUser[] = [];
+
+    if (fs.existsSync(filePath)) {
+      const parsed: unknown = JSON.parse(await fs.promises.readFile(filePath, "utf8"));
+      if (!Array.isArray(parsed)) {
+        throw new Error(`${filePath} must contain an array of users`);
+      }
+      for (const entry of parsed) {
+        if (isStoredUser(entry)) {
+          users.push({ ...entry, email: entry.email.trim().toLowerCase() });
+        } else {
+          console.warn(`Skipping invalid user entry in ${filePath}`);
+        }
+      }
+    }
+
+    if (demoHash) {
+      const passwordHash = await demoHash;
+      for (const demo of DEMO_USERS) {
+        if (!users.some((user) => user.email === demo.email)) {
+          users.push({ ...demo, passwordHash });
+        }
+      }
+    }
+
+    return users;
+  };
+
+  const findUser = async (email: string): Promise<AuthUser | null> => {
+    const normalizedEmail = email.trim().toLowerCase();
+    const user = (await loadUsers()).find((candidate) => candidate.email === normalizedEmail);
+    return user ? toAuthUser(user) : null;
+  };
+
+  // Returns the user when the password matches, otherwise null
+  const authenticate = async (email: string, password: string): Promise<AuthUser | null> => {
+    const normalizedEmail = email.trim().toLowerCase();
+    const user = (await loadUsers()).find((candidate) => candidate.email === normalizedEmail);
+
+    const valid = await verifyPassword(password, user?.passwordHash || (await dummyHash));
+    return user && valid ? toAuthUser(user) : null;
+  };
+
+  return { findUser, authenticate };
+}
+
+export type UserStore = ReturnType<typeof createUserStore>;
@@ -10,13 +10,18 @@ import { DashboardDataProvider } from "@/contexts/DashboardDataContext";
 import { SchemaProvider } from "@/contexts/SchemaContext";
 import { SavedPromptsProvider } from "@/contexts/SavedPromptsContext";
 import { SavedQueriesProvider } from "@/contexts/SavedQueriesContext";
+import { ConversationsProvider } from "@/contexts/ConversationsContext";
 import { AuthProvider, useAuth } from "@/contexts/AuthContext";
+import { PermissionsProvider } from "@/contexts/PermissionsContext";
+import { WriteApprovalProvider } from "@/contexts/WriteApprovalContext";
 import { TicketsProvider } from "@/contexts/TicketsContext";
 import Dashboard from "./pages/Dashboard";
 import Chat from "./pages/Chat";
 import Tickets from "./pages/Tickets";
 import DataExplorer from "./pages/DataExplorer";
 import Settings from "./pages/Settings";
+import SchemaPermissions from "./pages/SchemaPermissions";
+import AuditLog from "./pages/AuditLog";
 import Login from "./pages/Login";
 import NotFound from "./pages/NotFound";
 
@@ -24,7 +29,12 @@ const queryClient = new QueryClient();
 
 // Protected route wrapper that requires authentication
 function RequireAuth({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, isLoading } = useAuth();
+
+  // Wait for the session check so a page reload doesn't bounce to the login screen
+  if (isLoading) {
+    return null;
+  }
 
   if (!isAuthenticated) {
     return <Navigate to="/" replace />;
@@ -60,6 +70,16 @@ const AppRoutes = () => (
             <Route path="/explorer" element={<DataExplorer />} />
             <Route path="/tickets" element={<Tickets />} />
             <Route path="/settings" element={<Settings />} />
+            <Route path="/settings/permissions" element={
+              <RequireAdmin fallback="/settings">
+                <SchemaPermissions />
+              </RequireAdmin>
+            } />
+            <Route path="/settings/audit" element={
+              <RequireAdmin fallback="/settings">
+                <AuditLog />
+              </RequireAdmin>
+            } />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </AppLayout>
@@ -71,25 +91,31 @@ const AppRoutes = () => (
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <AuthProvider>
-      <CDataProvider>
-        <DataSourcesProvider>
-          <DashboardDataProvider>
-            <SchemaProvider>
-              <SavedPromptsProvider>
-                <SavedQueriesProvider>
-                  <TicketsProvider>
-                    <TooltipProvider>
-                      <Toaster />
-                      <Sonner />
-                      <AppRoutes />
-                    </TooltipProvider>
-                  </TicketsProvider>
-                </SavedQueriesProvider>
-              </SavedPromptsProvider>
-            </SchemaProvider>
-          </DashboardDataProvider>
-        </DataSourcesProvider>
-      </CDataProvider>
+      <PermissionsProvider>
+        <WriteApprovalProvider>
+          <CDataProvider>
+            <DataSourcesProvider>
+              <DashboardDataProvider>
+                <SchemaProvider>
+                  <SavedPromptsProvider>
+                    <SavedQueriesProvider>
+                      <ConversationsProvider>
+                        <TicketsProvider>
+                          <TooltipProvider>
+                            <Toaster />
+                            <Sonner />
+                            <AppRoutes />
+                          </TooltipProvider>
+                        </TicketsProvider>
+                      </ConversationsProvider>
+                    </SavedQueriesProvider>
+                  </SavedPromptsProvider>
+                </SchemaProvider>
+              </DashboardDataProvider>
+            </DataSourcesProvider>
+          </CDataProvider>
+        </WriteApprovalProvider>
+      </PermissionsProvider>
     </AuthProvider>
   </QueryClientProvider>
 );
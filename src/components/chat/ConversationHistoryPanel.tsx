@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { MessageSquare, MessageSquarePlus, Pencil, Trash2, Check, X, Search, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useConversations, Conversation } from "@/contexts/ConversationsContext";
+import { cn } from "@/lib/utils";
+
+interface ConversationHistoryPanelProps {
+  isOpen: boolean;
+  activeConversationId: string | null;
+  /** Disables switching conversations while a run is in progress */
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onDeleted: (id: string) => void;
+}
+
+function formatUpdatedAt(date: Date): string {
+  const now = new Date();
+  if (date.toDateString() === now.toDateString()) {
+    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+  }
+  return date.toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+    year: date.getFullYear() !== now.getFullYear() ? "numeric" : undefined,
+  });
+}
+
+function ConversationItem({
+  conversation,
+  isActive,
+  disabled,
+  onSelect,
+  onRename,
+  onDelete,
+}: {
+  conversation: Conversation;
+  isActive: boolean;
+  disabled?: boolean;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState(conversation.title);
+
+  const handleSave = () => {
+    if (editValue.trim()) {
+      onRename(conversation.id, editValue);
+      setIsEditing(false);
+    }
+  };
+
+  const handleCancel = () => {
+    setEditValue(conversation.title);
+    setIsEditing(false);
+  };
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center gap-1 p-1.5 rounded-lg border border-primary/30 bg-card">
+        <input
+          value={editValue}
+          onChange={(e) => setEditValue(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleSave();
+            if (e.key === "Escape") handleCancel();
+          }}
+          className="flex-1 min-w-0 px-2 py-1 text-sm rounded bg-background border border-border focus:outline-none focus:ring-2 focus:ring-primary/30"
+          autoFocus
+        />
+        <Button variant="ghost" size="sm" onClick={handleSave} className="h-7 w-7 p-0" title="Save">
+          <Check className="h-3.5 w-3.5" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={handleCancel} className="h-7 w-7 p-0" title="Cancel">
+          <X className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      onClick={() => !disabled && onSelect(conversation.id)}
+      className={cn(
+        "group flex items-center gap-2 px-3 py-2 rounded-lg transition-colors",
+        disabled ? "cursor-not-allowed opacity-60" : "cursor-pointer",
+        isActive ? "bg-primary/10 text-primary" : "hover:bg-muted text-foreground"
+      )}
+    >
+      <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm truncate">{conversation.title}</p>
+        <p className="text-[10px] text-muted-foreground">{formatUpdatedAt(conversation.updatedAt)}</p>
+      </div>
+      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            setIsEditing(true);
+          }}
+          className="h-7 w-7 p-0"
+          title="Rename conversation"
+        >
+          <Pencil className="h-3.5 w-3.5" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={(e) => {
+            e.stopPropagation();
+            onDelete(conversation.id);
+          }}
+          disabled={disabled && isActive}
+          className="h-7 w-7 p-0 text-destructive/70 hover:text-destructive hover:bg-destructive/10"
+          title="Delete conversation"
+        >
+          <Trash2 className="h-3.5 w-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ConversationHistoryPanel({
+  isOpen,
+  activeConversationId,
+  disabled,
+  onSelect,
+  onNew,
+  onDeleted,
+}: ConversationHistoryPanelProps) {
+  const { conversations, isLoading, renameConversation, deleteConversation, searchConversations } = useConversations();
+  const [search, setSearch] = useState("");
+
+  const filtered = searchConversations(search);
+
+  const handleDelete = (id: string) => {
+    deleteConversation(id);
+    onDeleted(id);
+  };
+
+  return (
+    <div
+      className={cn(
+        "h-full border-r border-border bg-background/95 flex flex-col transition-all duration-300",
+        isOpen ? "w-72" : "w-0 overflow-hidden"
+      )}
+    >
+      {/* Header */}
+      <div className="p-4 border-b border-border space-y-3">
+        <Button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full gap-2 gradient-primary"
+          size="sm"
+        >
+          <Plus className="h-4 w-4" />
+          New conversation
+        </Button>
+        <div className="relative">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+          <input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search conversations..."
+            className="w-full pl-8 pr-3 py-1.5 text-sm rounded-lg border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
+          />
+        </div>
+      </div>
+
+      {/* Conversation List */}
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {isLoading ? null : conversations.length === 0 ? (
+            <div className="text-center py-12 px-4">
+              <div className="w-12 h-12 rounded-xl bg-muted/50 flex items-center justify-center mx-auto mb-3">
+                <MessageSquarePlus className="h-5 w-5 text-muted-foreground/50" />
+              </div>
+              <p className="text-sm text-muted-foreground">No conversations yet</p>
+              <p className="text-xs text-muted-foreground mt-1">Your Advisor chats will appear here</p>
+            </div>
+          ) : filtered.length === 0 ? (
+            <p className="text-xs text-muted-foreground text-center py-8">No matching conversations</p>
+          ) : (
+            filtered.map((conversation) => (
+              <ConversationItem
+                key={conversation.id}
+                conversation={conversation}
+                isActive={conversation.id === activeConversationId}
+                disabled={disabled}
+                onSelect={onSelect}
+                onRename={renameConversation}
+                onDelete={handleDelete}
+              />
+            ))
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
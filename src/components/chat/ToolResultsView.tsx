@@ -0,0 +1,79 @@
+import { useMemo, useState } from "react";
+import { BarChart3, LineChart as LineChartIcon, PieChart as PieChartIcon, Table as TableIcon } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { QueryResult } from "@/lib/cdata";
+import { ChartType, extractQueryResults, inferChartAxes } from "@/lib/queryResults";
+import { QueryResultTable } from "@/components/shared/QueryResultTable";
+import { QueryResultChart } from "@/components/shared/QueryResultChart";
+
+type ViewMode = "table" | ChartType;
+
+const viewOptions: { mode: ViewMode; label: string; icon: typeof TableIcon }[] = [
+  { mode: "table", label: "Table", icon: TableIcon },
+  { mode: "bar", label: "Bar", icon: BarChart3 },
+  { mode: "line", label: "Line", icon: LineChartIcon },
+  { mode: "pie", label: "Pie", icon: PieChartIcon },
+];
+
+function QueryResultView({ result, toolName }: { result: QueryResult; toolName: string }) {
+  const axes = useMemo(() => inferChartAxes(result), [result]);
+  const [viewMode, setViewMode] = useState<ViewMode>("table");
+
+  return (
+    <div className="rounded-lg border border-border bg-background/50 overflow-hidden">
+      <div className="flex items-center justify-between px-2 py-1 bg-muted/50 border-b border-border">
+        <span className="text-[10px] text-muted-foreground">
+          via {toolName} · {result.rows.length} {result.rows.length === 1 ? "row" : "rows"}
+        </span>
+        {axes ? (
+          <div className="flex items-center rounded-md border border-border bg-muted/30 p-0.5">
+            {viewOptions.map(({ mode, label, icon: Icon }) => (
+              <button
+                key={mode}
+                onClick={() => setViewMode(mode)}
+                className={cn(
+                  "flex items-center gap-1 px-1.5 py-0.5 text-[10px] rounded transition-colors",
+                  viewMode === mode
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+                title={`Show as ${label.toLowerCase()}`}
+              >
+                <Icon className="h-3 w-3" />
+                {label}
+              </button>
+            ))}
+          </div>
+        ) : null}
+      </div>
+      <div className="p-2">
+        {viewMode === "table" || !axes ? (
+          <QueryResultTable result={result} className="max-h-[300px]" />
+        ) : (
+          <QueryResultChart result={result} axes={axes} type={viewMode} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Inline tables/charts for every tabular tool result in a message
+export function ToolResultsView({ toolCalls }: { toolCalls: { name: string; result: unknown }[] }) {
+  const results = useMemo(
+    () =>
+      toolCalls.flatMap((call) =>
+        extractQueryResults(call.result).map((result) => ({ result, toolName: call.name }))
+      ),
+    [toolCalls]
+  );
+
+  if (results.length === 0) return null;
+
+  return (
+    <div className="mt-3 space-y-3">
+      {results.map(({ result, toolName }, i) => (
+        <QueryResultView key={i} result={result} toolName={toolName} />
+      ))}
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { ReactNode, useState } from "react";
-import { Copy, Check, Clock, Database, BarChart3, Code, Loader2 } from "lucide-react";
+import { Copy, Check, Clock, Database, BarChart3, Code, Loader2, Filter, HardDrive } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
 import { useDashboardData, ExecutedQuery } from "@/contexts/DashboardDataContext";
+import type { CacheStatus } from "@/lib/cdata";
 
 interface ChartCardProps {
   title: string;
@@ -16,6 +17,12 @@ interface ChartCardProps {
   isRefreshing?: boolean;
 }
 
+const CACHE_LABELS: Record<CacheStatus, { label: string; title: string }> = {
+  hit: { label: "Cache hit", title: "Served from the query cache without calling CData" },
+  stale: { label: "Stale", title: "Cached result shown while a fresh one loads" },
+  miss: { label: "Cache miss", title: "Fetched from CData" },
+};
+
 function formatDuration(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   return `${(ms / 1000).toFixed(2)}s`;
@@ -47,6 +54,19 @@ function QueryBlock({ query }: { query: ExecutedQuery }) {
           <span className="font-medium text-xs text-foreground">{query.name}</span>
         </div>
         <div className="flex items-center gap-3 text-xs text-muted-foreground">
+          {query.cache && (
+            <span
+              title={CACHE_LABELS[query.cache].title}
+              className={cn(
+                "flex items-center gap-1",
+                query.cache === "hit" && "text-success",
+                query.cache === "stale" && "text-warning"
+              )}
+            >
+              <HardDrive className="h-3 w-3" />
+              {CACHE_LABELS[query.cache].label}
+            </span>
+          )}
           {query.rowCount !== undefined && (
             <span>{query.rowCount} rows</span>
           )}
@@ -70,6 +90,18 @@ function QueryBlock({ query }: { query: ExecutedQuery }) {
           </Button>
         </div>
       </div>
+      {query.rowFilters && query.rowFilters.length > 0 && (
+        <div className="px-3 py-2 border-b border-border text-xs text-muted-foreground space-y-1">
+          {query.rowFilters.map((filter) => (
+            <div key={filter} className="flex items-start gap-1.5">
+              <Filter className="h-3 w-3 mt-0.5 shrink-0" />
+              <span>
+                Row filter <code className="font-mono text-foreground/80 break-all">{filter}</code>
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
       <pre className="p-3 text-xs overflow-x-auto max-h-[200px] overflow-y-auto">
         <code className="text-foreground/80 whitespace-pre-wrap">{formatSql(query.sql)}</code>
       </pre>
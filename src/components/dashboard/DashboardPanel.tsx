@@ -0,0 +1,94 @@
+import { ReactNode } from "react";
+import { EyeOff, GripVertical } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import type { PanelSpan } from "@/hooks/useDashboardLayout";
+
+// Static class names so Tailwind picks them up
+const SPAN_CLASSES: Record<PanelSpan, string> = {
+  1: "lg:col-span-1",
+  2: "lg:col-span-2",
+  3: "lg:col-span-3",
+};
+
+const SPAN_OPTIONS: PanelSpan[] = [1, 2, 3];
+
+interface DashboardPanelProps {
+  title: string;
+  span: PanelSpan;
+  children: ReactNode;
+  /** Layout mode: show the drag handle, width and hide controls */
+  isEditing: boolean;
+  isDragging: boolean;
+  onDragStart: () => void;
+  onDragEnter: () => void;
+  onDragEnd: () => void;
+  onResize: (span: PanelSpan) => void;
+  onHide: () => void;
+}
+
+export function DashboardPanel({
+  title,
+  span,
+  children,
+  isEditing,
+  isDragging,
+  onDragStart,
+  onDragEnter,
+  onDragEnd,
+  onResize,
+  onHide,
+}: DashboardPanelProps) {
+  if (!isEditing) {
+    return <div className={cn("min-w-0", SPAN_CLASSES[span])}>{children}</div>;
+  }
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        onDragStart();
+      }}
+      onDragEnter={onDragEnter}
+      onDragOver={(e) => e.preventDefault()}
+      onDragEnd={onDragEnd}
+      className={cn(
+        "min-w-0 rounded-xl border-2 border-dashed border-primary/30 p-2 transition-opacity",
+        SPAN_CLASSES[span],
+        isDragging && "opacity-40"
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 mb-2 px-2 py-1 rounded-md bg-primary/5 text-xs">
+        <div className="flex items-center gap-1.5 min-w-0 cursor-move text-muted-foreground">
+          <GripVertical className="h-4 w-4 shrink-0" />
+          <span className="truncate font-medium text-foreground">{title}</span>
+        </div>
+        <div className="flex items-center gap-1 shrink-0">
+          <div className="hidden lg:flex items-center rounded-md border border-border bg-muted/30 p-0.5">
+            {SPAN_OPTIONS.map((option) => (
+              <button
+                key={option}
+                onClick={() => onResize(option)}
+                className={cn(
+                  "px-2 py-0.5 text-[10px] rounded transition-colors",
+                  span === option
+                    ? "bg-background text-foreground shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+                title={`${option} column${option > 1 ? "s" : ""} wide`}
+              >
+                {option}/3
+              </button>
+            ))}
+          </div>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onHide} title="Hide panel">
+            <EyeOff className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+      {/* Disable interaction with card contents while arranging */}
+      <div className="pointer-events-none select-none">{children}</div>
+    </div>
+  );
+}
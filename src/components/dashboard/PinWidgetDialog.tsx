@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import { Pin } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { PinnedWidget } from "@/contexts/DashboardDataContext";
+
+export type PinWidgetSettings = Pick<PinnedWidget, "title" | "visualization" | "refreshInterval">;
+
+const VISUALIZATION_OPTIONS: { value: PinnedWidget["visualization"]; label: string }[] = [
+  { value: "table", label: "Table" },
+  { value: "bar", label: "Bar chart" },
+  { value: "line", label: "Line chart" },
+  { value: "pie", label: "Pie chart" },
+];
+
+const REFRESH_OPTIONS: { value: number; label: string }[] = [
+  { value: 0, label: "Manual only" },
+  { value: 60 * 1000, label: "Every minute" },
+  { value: 5 * 60 * 1000, label: "Every 5 minutes" },
+  { value: 15 * 60 * 1000, label: "Every 15 minutes" },
+  { value: 60 * 60 * 1000, label: "Every hour" },
+];
+
+interface PinWidgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  sql: string;
+  /** Initial values; when editing an existing widget pass its current settings */
+  defaults?: Partial<PinWidgetSettings>;
+  mode?: "pin" | "edit";
+  onSubmit: (settings: PinWidgetSettings) => void;
+}
+
+export function PinWidgetDialog({ open, onOpenChange, sql, defaults, mode = "pin", onSubmit }: PinWidgetDialogProps) {
+  const [title, setTitle] = useState("");
+  const [visualization, setVisualization] = useState<PinnedWidget["visualization"]>("table");
+  const [refreshInterval, setRefreshInterval] = useState(0);
+
+  // Reset the form each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTitle(defaults?.title ?? "");
+      setVisualization(defaults?.visualization ?? "table");
+      setRefreshInterval(defaults?.refreshInterval ?? 0);
+    }
+  }, [open, defaults?.title, defaults?.visualization, defaults?.refreshInterval]);
+
+  const handleSubmit = () => {
+    if (!title.trim()) return;
+    onSubmit({ title: title.trim(), visualization, refreshInterval });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pin className="h-4 w-4 text-primary" />
+            {mode === "edit" ? "Edit widget" : "Pin to dashboard"}
+          </DialogTitle>
+          <DialogDescription>
+            {mode === "edit"
+              ? "Change how this widget is displayed and refreshed."
+              : "Add this query to the dashboard as a widget."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="widget-title">Title</Label>
+            <Input
+              id="widget-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleSubmit()}
+              placeholder="e.g., Open tickets by account"
+              autoFocus
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Visualization</Label>
+              <Select value={visualization} onValueChange={(v) => setVisualization(v as PinnedWidget["visualization"])}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VISUALIZATION_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Refresh</Label>
+              <Select value={String(refreshInterval)} onValueChange={(v) => setRefreshInterval(Number(v))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REFRESH_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={String(option.value)}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Query</Label>
+            <pre className="p-3 text-xs rounded-lg border border-border bg-muted/30 max-h-[160px] overflow-auto">
+              <code className="text-foreground/80 whitespace-pre-wrap">{sql}</code>
+            </pre>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!title.trim()} className="gradient-primary">
+            {mode === "edit" ? "Save" : "Pin widget"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
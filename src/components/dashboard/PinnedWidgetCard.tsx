@@ -0,0 +1,113 @@
+import { useMemo, useState } from "react";
+import { Loader2, MoreHorizontal, Pencil, RefreshCw, Trash2 } from "lucide-react";
+import { ChartCard } from "./ChartCard";
+import { PinWidgetDialog } from "./PinWidgetDialog";
+import { QueryResultChart } from "@/components/shared/QueryResultChart";
+import { QueryResultTable } from "@/components/shared/QueryResultTable";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useDashboardData, PinnedWidget } from "@/contexts/DashboardDataContext";
+import { inferChartAxes } from "@/lib/queryResults";
+
+function formatRefreshInterval(ms: number): string {
+  if (ms <= 0) return "Manual refresh";
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `Refreshes every ${minutes === 1 ? "minute" : `${minutes} minutes`}`;
+  const hours = Math.round(minutes / 60);
+  return `Refreshes every ${hours === 1 ? "hour" : `${hours} hours`}`;
+}
+
+export function PinnedWidgetCard({ widget }: { widget: PinnedWidget }) {
+  const { widgetData, updateWidget, removeWidget, refreshWidget } = useDashboardData();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+
+  const data = widgetData[widget.id];
+  const result = data?.result ?? null;
+  const isLoading = data?.loading ?? true;
+  const error = data?.error ?? null;
+
+  // Fall back to a table when the result has no chartable columns
+  const axes = useMemo(() => (result ? inferChartAxes(result) : null), [result]);
+
+  const isInitialLoad = isLoading && !result;
+  const isRefreshing = isLoading && !!result;
+
+  const subtitle = isInitialLoad
+    ? "Loading..."
+    : result
+      ? `${result.rows.length} rows · ${formatRefreshInterval(widget.refreshInterval)}`
+      : formatRefreshInterval(widget.refreshInterval);
+
+  return (
+    <>
+      <ChartCard
+        title={widget.title}
+        subtitle={subtitle}
+        queryNames={[widget.title]}
+        className="border-border/50 bg-card/50 backdrop-blur-sm"
+        isRefreshing={isRefreshing}
+        action={
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => refreshWidget(widget.id)} disabled={isLoading}>
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Refresh
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setIsEditOpen(true)}>
+                <Pencil className="h-4 w-4 mr-2" />
+                Edit
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                onClick={() => removeWidget(widget.id)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Remove
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        }
+      >
+        {isInitialLoad ? (
+          <div className="h-[200px] flex items-center justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            <span className="ml-2 text-muted-foreground">Running query...</span>
+          </div>
+        ) : error && !result ? (
+          <div className="h-[200px] flex items-center justify-center">
+            <p className="text-destructive text-center text-sm">{error}</p>
+          </div>
+        ) : !result || result.rows.length === 0 ? (
+          <div className="h-[200px] flex items-center justify-center">
+            <p className="text-muted-foreground text-center">No rows returned</p>
+          </div>
+        ) : widget.visualization !== "table" && axes && axes.valueKeys.length > 0 ? (
+          <QueryResultChart result={result} axes={axes} type={widget.visualization} />
+        ) : (
+          <QueryResultTable result={result} className="max-h-[320px]" />
+        )}
+      </ChartCard>
+
+      <PinWidgetDialog
+        open={isEditOpen}
+        onOpenChange={setIsEditOpen}
+        sql={widget.sql}
+        mode="edit"
+        defaults={widget}
+        onSubmit={(settings) => updateWidget(widget.id, settings)}
+      />
+    </>
+  );
+}
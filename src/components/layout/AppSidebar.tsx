@@ -19,6 +19,7 @@ import { Button } from "@/components/ui/button";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useAuth } from "@/contexts/AuthContext";
 import { useTickets } from "@/contexts/TicketsContext";
+import { useCData, type TokenStatus } from "@/contexts/CDataContext";
 
 const allNavItems = [
   { title: "Dashboard", path: "/dashboard", icon: LayoutDashboard, adminOnly: false },
@@ -53,10 +54,34 @@ const statusLabels = {
   done: "Done",
 };
 
+const tokenDot: Record<TokenStatus["state"], string> = {
+  none: "bg-muted-foreground",
+  valid: "bg-success",
+  refreshing: "bg-warning animate-pulse",
+  failed: "bg-destructive",
+};
+
+function getTokenLabel({ state, expiresAt }: TokenStatus): string {
+  const until = expiresAt
+    ? new Date(expiresAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    : null;
+  switch (state) {
+    case "valid":
+      return `Token valid until ${until}`;
+    case "refreshing":
+      return "Refreshing token…";
+    case "failed":
+      return until ? `Token refresh failed, valid until ${until}` : "Token refresh failed";
+    default:
+      return "Not connected";
+  }
+}
+
 export function AppSidebar() {
   const [collapsed, setCollapsed] = useState(false);
   const [ticketsExpanded, setTicketsExpanded] = useState(false);
   const location = useLocation();
+  const { isConfigured, tokenStatus } = useCData();
   const navigate = useNavigate();
   const { user, logout } = useAuth();
   const { tickets } = useTickets();
@@ -64,8 +89,8 @@ export function AppSidebar() {
   // Filter nav items based on user role
   const navItems = allNavItems.filter(item => !item.adminOnly || user?.role === "admin");
 
-  const handleLogout = () => {
-    logout();
+  const handleLogout = async () => {
+    await logout();
     navigate("/");
   };
 
@@ -245,7 +270,31 @@ export function AppSidebar() {
         {bottomItems.map((item) => (
           <NavItem key={item.path} item={item} isBottom />
         ))}
-        
+
+        {/* CData token status */}
+        {isConfigured && (
+          collapsed ? (
+            <Tooltip delayDuration={0}>
+              <TooltipTrigger asChild>
+                <div className="flex justify-center py-2">
+                  <span className={cn("h-2 w-2 rounded-full", tokenDot[tokenStatus.state])} />
+                </div>
+              </TooltipTrigger>
+              <TooltipContent side="right" className="font-medium">
+                {getTokenLabel(tokenStatus)}
+              </TooltipContent>
+            </Tooltip>
+          ) : (
+            <div
+              className="flex items-center gap-3 px-3 py-2 text-xs text-muted-foreground"
+              title={tokenStatus.error ?? undefined}
+            >
+              <span className={cn("h-2 w-2 shrink-0 rounded-full ml-1.5", tokenDot[tokenStatus.state])} />
+              <span className="truncate">{getTokenLabel(tokenStatus)}</span>
+            </div>
+          )
+        )}
+
         {/* Logout Button */}
         {collapsed ? (
           <Tooltip delayDuration={0}>
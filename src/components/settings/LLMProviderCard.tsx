@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { Bot, CheckCircle2, AlertCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  LLM_PROVIDER_OPTIONS,
+  clearLLMSettings,
+  getActiveProviderId,
+  getLLMSettings,
+  getProviderConfig,
+  getProviderConfigHint,
+  isProviderConfigured,
+  saveLLMSettings,
+  type LLMProviderId,
+} from "@/lib/llmProviders";
+
+// Choose which model provider the AI Data Advisor talks to
+export function LLMProviderCard() {
+  const [provider, setProvider] = useState<LLMProviderId>(getActiveProviderId);
+  const [model, setModel] = useState(() => getLLMSettings().model || "");
+  const [baseUrl, setBaseUrl] = useState(() => getLLMSettings().baseUrl || "");
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+
+  // Effective config if the current form were saved
+  const envConfig = getProviderConfig(provider, {});
+  const effectiveConfig = getProviderConfig(provider, {
+    provider,
+    model: model.trim() || undefined,
+    baseUrl: baseUrl.trim() || undefined,
+  });
+  const isConfigured = isProviderConfigured(effectiveConfig);
+
+  const handleProviderChange = (value: string) => {
+    setProvider(value as LLMProviderId);
+    // Overrides belong to a single provider
+    setModel("");
+    setBaseUrl("");
+    setSavedAt(null);
+  };
+
+  const handleSave = () => {
+    saveLLMSettings({
+      provider,
+      model: model.trim() || undefined,
+      baseUrl: baseUrl.trim() || undefined,
+    });
+    setSavedAt(new Date());
+  };
+
+  const handleReset = () => {
+    clearLLMSettings();
+    setProvider(getActiveProviderId());
+    setModel("");
+    setBaseUrl("");
+    setSavedAt(null);
+  };
+
+  return (
+    <Card className="transition-all duration-200 hover:shadow-md hover:border-primary/20">
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <Bot className="h-5 w-5" />
+          <CardTitle>AI Advisor Model</CardTitle>
+        </div>
+        <CardDescription>
+          Choose the model provider used by the AI Data Advisor. API keys come from environment
+          variables; model and endpoint can be overridden here.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Provider</Label>
+            <Select value={provider} onValueChange={handleProviderChange}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LLM_PROVIDER_OPTIONS.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="llm-model">Model</Label>
+            <Input
+              id="llm-model"
+              value={model}
+              onChange={(e) => setModel(e.target.value)}
+              placeholder={envConfig.model}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="llm-base-url">Base URL</Label>
+            <Input
+              id="llm-base-url"
+              value={baseUrl}
+              onChange={(e) => setBaseUrl(e.target.value)}
+              placeholder={envConfig.baseUrl}
+            />
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            {isConfigured ? (
+              <>
+                <CheckCircle2 className="h-4 w-4 text-success" />
+                <span className="text-muted-foreground">
+                  {effectiveConfig.label} · {effectiveConfig.model}
+                  {effectiveConfig.proxied && " · via server proxy"}
+                </span>
+              </>
+            ) : (
+              <>
+                <AlertCircle className="h-4 w-4 text-warning" />
+                <span className="text-muted-foreground">{getProviderConfigHint(provider)}</span>
+              </>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {savedAt && <span className="text-xs text-muted-foreground">Saved</span>}
+            <Button variant="outline" size="sm" onClick={handleReset}>
+              Use environment defaults
+            </Button>
+            <Button size="sm" onClick={handleSave}>
+              Save
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { Server, Plus, Trash2, Loader2, RefreshCw, CheckCircle2, AlertCircle, KeyRound } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useCData, type MCPServerStatus } from "@/contexts/CDataContext";
+import {
+  saveMCPServers,
+  validateMCPServer,
+  type MCPServerConfig,
+} from "@/lib/mcpServers";
+
+const EMPTY_FORM = { id: "", url: "", authHeader: "" };
+
+function ServerState({ status }: { status: MCPServerStatus }) {
+  switch (status.state) {
+    case "loading":
+      return <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />;
+    case "connected":
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+          <CheckCircle2 className="h-4 w-4 text-success" />
+          {status.tools.length} tool{status.tools.length === 1 ? "" : "s"}
+        </span>
+      );
+    case "error":
+      return (
+        <span className="flex items-center gap-1.5 text-xs text-destructive" title={status.error ?? undefined}>
+          <AlertCircle className="h-4 w-4" />
+          Unreachable
+        </span>
+      );
+    default:
+      return <span className="text-xs text-muted-foreground">Disabled</span>;
+  }
+}
+
+// Register other MCP servers whose tools the AI Data Advisor can use alongside CData's
+export function MCPServersCard() {
+  const { mcpServers, reloadMCPServers } = useCData();
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const servers = mcpServers.map((status) => status.server);
+
+  // Saved on the server; returns false when it refused the change
+  const update = async (next: MCPServerConfig[]): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      await saveMCPServers(next);
+      setFormError(null);
+      return true;
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save MCP servers");
+      return false;
+    } finally {
+      setIsSaving(false);
+      reloadMCPServers();
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const server: MCPServerConfig = {
+      id: form.id.trim(),
+      url: form.url.trim(),
+      authHeader: form.authHeader.trim() || undefined,
+      enabled: true,
+    };
+    const problem = validateMCPServer(server, servers);
+    if (problem) {
+      setFormError(problem);
+      return;
+    }
+    if (await update([...servers, server])) setForm(EMPTY_FORM);
+  };
+
+  const handleToggle = (id: string, enabled: boolean) => {
+    update(servers.map((server) => (server.id === id ? { ...server, enabled } : server)));
+  };
+
+  const handleRemove = (id: string) => {
+    update(servers.filter((server) => server.id !== id));
+  };
+
+  return (
+    <Card className="transition-all duration-200 hover:shadow-md hover:border-primary/20">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Server className="h-5 w-5" />
+            <CardTitle>MCP Servers</CardTitle>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => reloadMCPServers()}
+            disabled={mcpServers.length === 0}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Reconnect
+          </Button>
+        </div>
+        <CardDescription>
+          Give the AI Data Advisor tools from other MCP servers, such as an internal docs server.
+          Their tools are named <code>name__tool</code> and are available to every signed-in user.
+          Calls go through this app's server, which adds the Authorization header; it is never sent
+          to browsers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {mcpServers.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>URL</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Enabled</TableHead>
+                <TableHead className="w-[60px]"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {mcpServers.map((status) => (
+                <TableRow key={status.server.id}>
+                  <TableCell className="font-medium">{status.server.id}</TableCell>
+                  <TableCell className="max-w-[280px] truncate text-sm text-muted-foreground">
+                    {status.server.hasAuthHeader && (
+                      <KeyRound className="inline h-3.5 w-3.5 mr-1.5" aria-label="Sends an Authorization header" />
+                    )}
+                    {status.server.url}
+                  </TableCell>
+                  <TableCell>
+                    <ServerState status={status} />
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={status.server.enabled}
+                      disabled={isSaving}
+                      onCheckedChange={(enabled) => handleToggle(status.server.id, enabled)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive hover:bg-destructive/10"
+                      disabled={isSaving}
+                      onClick={() => handleRemove(status.server.id)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <form onSubmit={handleAdd} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_2fr_auto] gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="mcp-server-name">Name</Label>
+            <Input
+              id="mcp-server-name"
+              value={form.id}
+              onChange={(e) => setForm({ ...form, id: e.target.value })}
+              placeholder="docs"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mcp-server-url">URL</Label>
+            <Input
+              id="mcp-server-url"
+              value={form.url}
+              onChange={(e) => setForm({ ...form, url: e.target.value })}
+              placeholder="https://docs.example.com/mcp"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="mcp-server-auth">Authorization header</Label>
+            <Input
+              id="mcp-server-auth"
+              type="password"
+              value={form.authHeader}
+              onChange={(e) => setForm({ ...form, authHeader: e.target.value })}
+              placeholder="Bearer … (optional)"
+            />
+          </div>
+          <Button type="submit" size="sm" disabled={isSaving || !form.id.trim() || !form.url.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Server
+          </Button>
+        </form>
+        {formError && <p className="text-sm text-destructive">{formError}</p>}
+      </CardContent>
+    </Card>
+  );
+}
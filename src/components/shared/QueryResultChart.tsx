@@ -0,0 +1,89 @@
+import { Bar, BarChart, CartesianGrid, Cell, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "@/components/ui/chart";
+import { cn } from "@/lib/utils";
+import type { QueryResult } from "@/lib/cdata";
+import { ChartAxes, ChartType, toChartData } from "@/lib/queryResults";
+
+const SERIES_COLORS = [
+  "hsl(var(--primary))",
+  "hsl(var(--accent))",
+  "hsl(var(--success))",
+  "hsl(var(--warning))",
+  "hsl(var(--destructive))",
+];
+
+// Keep charts readable for large result sets
+const MAX_POINTS = 50;
+
+interface QueryResultChartProps {
+  result: QueryResult;
+  axes: ChartAxes;
+  type: ChartType;
+  className?: string;
+}
+
+export function QueryResultChart({ result, axes, type, className }: QueryResultChartProps) {
+  const data = toChartData(result, axes).slice(0, MAX_POINTS);
+
+  const config: ChartConfig = Object.fromEntries(
+    axes.valueKeys.map((key, i) => [key, { label: key, color: SERIES_COLORS[i % SERIES_COLORS.length] }])
+  );
+
+  if (type === "pie") {
+    // Pie charts show the first numeric series split by category
+    const valueKey = axes.valueKeys[0];
+    return (
+      <ChartContainer config={config} className={cn("aspect-auto h-[260px] w-full", className)}>
+        <PieChart>
+          <ChartTooltip content={<ChartTooltipContent nameKey={axes.categoryKey} />} />
+          <Pie data={data} dataKey={valueKey} nameKey={axes.categoryKey} innerRadius={45} outerRadius={90} paddingAngle={2}>
+            {data.map((_, index) => (
+              <Cell key={`cell-${index}`} fill={SERIES_COLORS[index % SERIES_COLORS.length]} />
+            ))}
+          </Pie>
+        </PieChart>
+      </ChartContainer>
+    );
+  }
+
+  const axisProps = {
+    tickLine: false,
+    axisLine: false,
+    tick: { fill: "hsl(var(--muted-foreground))", fontSize: 11 },
+  };
+
+  return (
+    <ChartContainer config={config} className={cn("aspect-auto h-[260px] w-full", className)}>
+      {type === "line" ? (
+        <LineChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} stroke="hsl(var(--border))" />
+          <XAxis dataKey={axes.categoryKey} {...axisProps} />
+          <YAxis {...axisProps} width={48} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {axes.valueKeys.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {axes.valueKeys.map((key) => (
+            <Line key={key} dataKey={key} type="monotone" stroke={config[key].color} strokeWidth={2} dot={false} />
+          ))}
+        </LineChart>
+      ) : (
+        <BarChart data={data} margin={{ left: 4, right: 12, top: 8 }}>
+          <CartesianGrid vertical={false} stroke="hsl(var(--border))" />
+          <XAxis dataKey={axes.categoryKey} {...axisProps} />
+          <YAxis {...axisProps} width={48} />
+          <ChartTooltip content={<ChartTooltipContent />} />
+          {axes.valueKeys.length > 1 && <ChartLegend content={<ChartLegendContent />} />}
+          {axes.valueKeys.map((key) => (
+            <Bar key={key} dataKey={key} fill={config[key].color} radius={[4, 4, 0, 0]} />
+          ))}
+        </BarChart>
+      )}
+    </ChartContainer>
+  );
+}
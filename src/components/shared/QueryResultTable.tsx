@@ -0,0 +1,103 @@
+import { useMemo, useState } from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { QueryResult } from "@/lib/cdata";
+import { isNumericColumn } from "@/lib/queryResults";
+
+interface QueryResultTableProps {
+  result: QueryResult;
+  /** Maximum rows rendered (sorting still applies to the full result) */
+  maxRows?: number;
+  className?: string;
+}
+
+type SortState = { column: number; direction: "asc" | "desc" } | null;
+
+// Compare two cells for sorting; nulls always sort last
+function compareCells(a: unknown, b: unknown, numeric: boolean, direction: "asc" | "desc"): number {
+  const aNull = a === null || a === undefined;
+  const bNull = b === null || b === undefined;
+  if (aNull || bNull) return aNull === bNull ? 0 : aNull ? 1 : -1;
+
+  const result = numeric
+    ? Number(a) - Number(b)
+    : String(a).localeCompare(String(b), undefined, { numeric: true });
+  return direction === "asc" ? result : -result;
+}
+
+export function QueryResultTable({ result, maxRows = 200, className }: QueryResultTableProps) {
+  const [sort, setSort] = useState<SortState>(null);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return result.rows;
+    const numeric = isNumericColumn(result.schema[sort.column]);
+    return [...result.rows].sort((a, b) =>
+      compareCells(a[sort.column], b[sort.column], numeric, sort.direction)
+    );
+  }, [result, sort]);
+
+  const toggleSort = (column: number) => {
+    setSort((prev) => {
+      if (prev?.column !== column) return { column, direction: "asc" };
+      if (prev.direction === "asc") return { column, direction: "desc" };
+      return null;
+    });
+  };
+
+  const visibleRows = sortedRows.slice(0, maxRows);
+
+  return (
+    <div className={cn("overflow-auto rounded border border-border", className)}>
+      <table className="w-full text-xs border-collapse">
+        <thead className="sticky top-0 bg-muted">
+          <tr>
+            {result.schema.map((col, i) => (
+              <th
+                key={i}
+                onClick={() => toggleSort(i)}
+                className="text-left p-2 border-b border-border font-medium cursor-pointer select-none hover:text-foreground whitespace-nowrap"
+                title={col.dataTypeName}
+              >
+                <span className="inline-flex items-center gap-1">
+                  {col.columnName}
+                  {sort?.column === i ? (
+                    sort.direction === "asc" ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />
+                  ) : (
+                    <ArrowUpDown className="h-3 w-3 opacity-30" />
+                  )}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {visibleRows.map((row, rowIndex) => (
+            <tr key={rowIndex} className="hover:bg-primary/5 border-b border-border/50 transition-colors">
+              {row.map((cell, cellIndex) => (
+                <td
+                  key={cellIndex}
+                  className={cn(
+                    "p-2 truncate max-w-[240px]",
+                    isNumericColumn(result.schema[cellIndex]) && "text-right tabular-nums"
+                  )}
+                  title={String(cell ?? "")}
+                >
+                  {cell === null || cell === undefined ? (
+                    <span className="text-muted-foreground italic">NULL</span>
+                  ) : (
+                    String(cell)
+                  )}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {sortedRows.length > maxRows && (
+        <p className="p-2 text-[10px] text-muted-foreground text-center">
+          Showing {maxRows} of {sortedRows.length} rows
+        </p>
+      )}
+    </div>
+  );
+}
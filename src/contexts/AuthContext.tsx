@@ -1,50 +1,70 @@
-import { createContext, useContext, useState, useCallback, ReactNode } from "react";
+import { createContext, useContext, useState, useEffect, useCallback, ReactNode } from "react";
+import { fetchSession, loginWithPassword, logoutSession, OIDC_LOGIN_URL } from "@/lib/auth";
 
-export type UserRole = "admin" | "user";
+// "admin" has full access; other roles are defined under Settings > Schema Permissions
+export type UserRole = string;
 
 export interface User {
   email: string;
   role: UserRole;
+  name?: string;
+  // Maps to the user's CData subscriber when the server uses tenant scoping
+  tenant?: string;
 }
 
 interface AuthContextValue {
   user: User | null;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => { success: boolean; error?: string };
-  logout: () => void;
+  // True while the existing session is being restored on page load
+  isLoading: boolean;
+  // Label for the single sign-on button, null when SSO is not configured
+  oidcProvider: string | null;
+  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  loginWithOIDC: () => void;
+  logout: () => Promise<void>;
 }
 
-// Allowed users for demo (any password accepted)
-const ALLOWED_USERS: Record<string, { role: UserRole }> = {
-  "admin@mycompany.com": { role: "admin" },
-  "user@mycompany.com": { role: "user" },
-};
-
 const AuthContext = createContext<AuthContextValue | null>(null);
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  // No auto-login - data loads in background while user is on login screen
   const [user, setUser] = useState<User | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [oidcProvider, setOidcProvider] = useState<string | null>(null);
 
-  const login = useCallback((email: string, _password: string): { success: boolean; error?: string } => {
-    const normalizedEmail = email.toLowerCase().trim();
-    const userConfig = ALLOWED_USERS[normalizedEmail];
+  // Restore the session from the server's cookie
+  useEffect(() => {
+    fetchSession()
+      .then((session) => {
+        setUser(session.user);
+        setOidcProvider(session.oidc?.label ?? null);
+      })
+      .catch((err) => {
+        console.error("Failed to restore session:", err);
+      })
+      .finally(() => setIsLoading(false));
+  }, []);
 
-    if (!userConfig) {
-      return { success: false, error: "Use admin@mycompany.com or user@mycompany.com" };
+  const login = useCallback(async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const newUser = await loginWithPassword(email.trim(), password);
+      setUser(newUser);
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: err instanceof Error ? err.message : "Login failed" };
     }
+  }, []);
 
-    // Any password accepted for demo
-    const newUser: User = {
-      email: normalizedEmail,
-      role: userConfig.role,
-    };
-
-    setUser(newUser);
-    return { success: true };
+  // Full-page redirect: the provider sends the browser back to the server's callback
+  const loginWithOIDC = useCallback(() => {
+    window.location.assign(OIDC_LOGIN_URL);
   }, []);
 
-  const logout = useCallback(() => {
+  const logout = useCallback(async () => {
+    try {
+      await logoutSession();
+    } catch (err) {
+      console.error("Failed to end session:", err);
+    }
     setUser(null);
   }, []);
 
@@ -53,7 +73,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       value={{
         user,
         isAuthenticated: !!user,
+        isLoading,
+        oidcProvider,
         login,
+        loginWithOIDC,
         logout,
       }}
     >
@@ -1,10 +1,17 @@
-import React, { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import React, { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from "react";
+import { hashKey, useQueryClient } from "@tanstack/react-query";
 import {
+  AuthError,
   generateJWT,
   getMCPBaseURL,
   hasCredentials,
   listMCPTools,
+  listMCPResources,
+  listMCPPrompts,
   callMCPTool,
+  endMCPSession,
+  listServerTools,
+  callServerTool,
   queryData as cdataQueryData,
   queryResultToObjects,
   listConnections as cdataListConnections,
@@ -12,22 +19,93 @@ import {
   getConnectionCreateURL as cdataGetConnectionCreateURL,
   getGenericConnectionURL as cdataGetGenericConnectionURL,
   getDataSourceLogoURL,
+  decodeJWTClaims,
   MCPTool,
+  MCPResource,
+  MCPPrompt,
+  MCPProgress,
   APIQueryResponse,
+  CacheStatus,
   Connection,
 } from "@/lib/cdata";
+import {
+  fetchMCPServers,
+  getServerEndpoint,
+  namespaceTools,
+  splitToolName,
+  type MCPServerConfig,
+} from "@/lib/mcpServers";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/contexts/PermissionsContext";
+import { ADMIN_ROLE } from "@/lib/permissions";
+import { applyRowFilters, enforceSchemaPermissions } from "@/lib/sqlPermissions";
+import {
+  classifySql,
+  classifyToolCall,
+  getToolSql,
+  WriteBlockedError,
+  WriteDeclinedError,
+  type WriteOperation,
+} from "@/lib/writeProtection";
+import { useWriteApproval } from "@/contexts/WriteApprovalContext";
+import { recordAudit, type AuditEntry, type AuditOrigin } from "@/lib/audit";
+import { extractQueryResults } from "@/lib/queryResults";
+import {
+  DEFAULT_QUERY_TTL,
+  QUERY_CACHE_KEY,
+  QUERY_CACHE_RETENTION,
+  getQueryCacheKey,
+  type QueryCacheOptions,
+} from "@/lib/queryCache";
+
+// State of the CData token, for the indicator in the sidebar
+export interface TokenStatus {
+  state: "none" | "valid" | "refreshing" | "failed";
+  // When the current token expires (ms since epoch, local clock)
+  expiresAt: number | null;
+  // Why the last refresh failed
+  error: string | null;
+}
+
+// An MCP server registered in Settings and the tools it contributes to the Advisor
+export interface MCPServerStatus {
+  server: MCPServerConfig;
+  state: "disabled" | "loading" | "connected" | "error";
+  // Namespaced tools; empty unless connected
+  tools: MCPTool[];
+  error: string | null;
+}
 
 interface CDataContextValue {
   isConfigured: boolean;
   isLoading: boolean;
   token: string | null;
+  tokenStatus: TokenStatus;
   mcpBaseURL: string;
+  // CData's tools followed by those of the other enabled MCP servers
   tools: MCPTool[];
+  mcpServers: MCPServerStatus[];
+  // Reconnects to the servers saved in Settings
+  reloadMCPServers: () => Promise<void>;
+  // Empty when the MCP server doesn't offer them
+  resources: MCPResource[];
+  prompts: MCPPrompt[];
   error: string | null;
   refreshToken: () => Promise<void>;
-  callTool: (name: string, args: Record<string, unknown>) => Promise<unknown>;
-  queryData: (sql: string) => Promise<APIQueryResponse>;
-  queryDataAsObjects: <T>(sql: string) => Promise<T[]>;
+  // Every call is written to the audit log under the given origin. onProgress receives
+  // the server's progress notifications while the tool runs.
+  callTool: (
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    onProgress?: (progress: MCPProgress) => void,
+    origin?: AuditOrigin
+  ) => Promise<unknown>;
+  // Reads are cached; see lib/queryCache.ts
+  queryData: (sql: string, origin: AuditOrigin, options?: QueryCacheOptions) => Promise<APIQueryResponse>;
+  queryDataAsObjects: <T>(sql: string, origin: AuditOrigin, options?: QueryCacheOptions) => Promise<T[]>;
+  // Marks cached results stale: all of them, or those read from one origin
+  invalidateQueryCache: (origin?: AuditOrigin) => Promise<void>;
   listConnections: () => Promise<Connection[]>;
   deleteConnection: (connectionId: string) => Promise<void>;
   getConnectionCreateURL: (driver: string, connectionName: string) => Promise<string>;
@@ -37,61 +115,163 @@ interface CDataContextValue {
 
 const CDataContext = createContext<CDataContextValue | null>(null);
 
+const NO_TOKEN: TokenStatus = { state: "none", expiresAt: null, error: null };
+
+// Lifetime assumed when a token carries no exp claim
+const DEFAULT_TOKEN_LIFETIME_MS = 2 * 60 * 60 * 1000;
+// Refresh this long before expiry, or after 80% of the lifetime for short-lived tokens
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+// Retry interval after a background refresh fails while the token is still valid
+const REFRESH_RETRY_MS = 60 * 1000;
+
+// When the token expires on the local clock. The lifetime (exp - iat) is counted from
+// now, so a skewed local clock doesn't matter; without iat, exp is taken as-is.
+function getTokenExpiry(token: string): number {
+  const { exp, iat } = decodeJWTClaims(token);
+  if (typeof exp !== "number") return Date.now() + DEFAULT_TOKEN_LIFETIME_MS;
+  if (typeof iat === "number" && exp > iat) return Date.now() + (exp - iat) * 1000;
+  return exp * 1000;
+}
+
+function getRefreshTime(issuedAt: number, expiresAt: number): number {
+  const lifetime = expiresAt - issuedAt;
+  return expiresAt - Math.min(REFRESH_MARGIN_MS, lifetime * 0.2);
+}
+
+type AuditCall = Pick<AuditEntry, "origin" | "kind" | "sql" | "executedSql" | "tool" | "args" | "cache">;
+
+function countRows(response: APIQueryResponse): number {
+  return (response.results ?? []).reduce((total, result) => total + (result.rows?.length ?? 0), 0);
+}
+
+// Tool results only have a row count when they contain query results
+function countToolRows(result: unknown): number | undefined {
+  const results = extractQueryResults(result);
+  return results.length > 0 ? results.reduce((total, r) => total + r.rows.length, 0) : undefined;
+}
+
 export function CDataProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const { getRolePolicy } = usePermissions();
+  const { confirmWrite } = useWriteApproval();
+  const queryClient = useQueryClient();
+  const userId = user?.email;
+  const [isConfigured, setIsConfigured] = useState(false);
   const [token, setToken] = useState<string | null>(null);
   const [tools, setTools] = useState<MCPTool[]>([]);
+  const [mcpServers, setMCPServers] = useState<MCPServerStatus[]>([]);
+  const [resources, setResources] = useState<MCPResource[]>([]);
+  const [prompts, setPrompts] = useState<MCPPrompt[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [tokenStatus, setTokenStatus] = useState<TokenStatus>(NO_TOKEN);
 
-  // Use refs to track token and expiry for use in callbacks without stale closures
+  // Use refs to track token and expiry for use in callbacks without stale closures.
+  // tokenExpiryRef is when the token should be refreshed, a little before it expires.
   const tokenRef = useRef<string | null>(null);
   const tokenExpiryRef = useRef<number>(0);
-  const isRefreshingRef = useRef(false);
+  const tokenExpiresAtRef = useRef<number>(0);
+  // The refresh in progress; concurrent callers all wait for it
+  const refreshPromiseRef = useRef<Promise<string> | null>(null);
+  const userIdRef = useRef(userId);
+  // Latest reloadMCPServers run; earlier runs drop their results
+  const serversLoadRef = useRef(0);
+  const serverURLsRef = useRef<string[]>([]);
+  // Origins that have read each cached query (by query hash), for invalidateQueryCache
+  const cacheOriginsRef = useRef(new Map<string, Set<AuditOrigin>>());
 
-  const isConfigured = hasCredentials();
+  // Each user maps to their own CData subscriber, so drop the previous user's token
+  // and tools during render: nothing below ever sees them alongside the new user
+  const [tokenUserId, setTokenUserId] = useState(userId);
+  if (tokenUserId !== userId) {
+    setTokenUserId(userId);
+    setToken(null);
+    setTools([]);
+    setMCPServers([]);
+    setResources([]);
+    setPrompts([]);
+    setError(null);
+    setTokenStatus(NO_TOKEN);
+    setIsLoading(!!userId);
+  }
 
   // Internal refresh that returns the new token
-  const doRefreshToken = useCallback(async (): Promise<string> => {
-    if (!isConfigured) {
-      throw new Error("CData credentials not configured");
-    }
-
-    // Prevent concurrent refreshes
-    if (isRefreshingRef.current) {
-      // Wait for existing refresh to complete
-      await new Promise(resolve => setTimeout(resolve, 500));
-      if (tokenRef.current) {
-        return tokenRef.current;
-      }
-    }
-
-    isRefreshingRef.current = true;
+  const runRefresh = useCallback(async (): Promise<string> => {
+    // Results that arrive after the user changed belong to the previous subscriber
+    const requestedFor = userIdRef.current;
+    const isStale = () => userIdRef.current !== requestedFor;
+    setTokenStatus((prev) => ({ ...prev, state: "refreshing" }));
     try {
+      // Tokens are scoped to the session's user on the server
+      const issuedAt = Date.now();
       const newToken = await generateJWT();
+      if (isStale()) {
+        throw new Error("Signed-in user changed while refreshing the token");
+      }
 
       // Update both state and ref
       setToken(newToken);
       tokenRef.current = newToken;
 
-      // Track token expiry (JWT is valid for 2 hours, refresh 5 min before)
-      tokenExpiryRef.current = Date.now() + (2 * 60 * 60 * 1000) - (5 * 60 * 1000);
+      // Track the token's real expiry from its exp claim
+      const expiresAt = getTokenExpiry(newToken);
+      tokenExpiresAtRef.current = expiresAt;
+      tokenExpiryRef.current = getRefreshTime(issuedAt, expiresAt);
+      setTokenStatus({ state: "valid", expiresAt, error: null });
 
-      // Load available MCP tools
-      const availableTools = await listMCPTools(newToken);
-      setTools(availableTools);
-
-      setError(null);
+      // Load available MCP tools; resources and prompts are optional extras. A failure
+      // here is reported on its own: the token stays valid and is still returned, and
+      // tools from an earlier load are kept.
+      try {
+        const [availableTools, availableResources, availablePrompts] = await Promise.all([
+          listMCPTools(newToken),
+          listMCPResources(newToken).catch(() => []),
+          listMCPPrompts(newToken).catch(() => []),
+        ]);
+        if (!isStale()) {
+          setTools(availableTools);
+          setResources(availableResources);
+          setPrompts(availablePrompts);
+          setError(null);
+        }
+      } catch (err) {
+        if (!isStale()) {
+          setError(`Failed to load MCP tools: ${err instanceof Error ? err.message : String(err)}`);
+        }
+      }
+      if (isStale()) {
+        throw new Error("Signed-in user changed while refreshing the token");
+      }
       return newToken;
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to initialize");
+      if (isStale()) throw err;
+      const message = err instanceof Error ? err.message : "Failed to initialize";
+      // A failed background refresh keeps the current token until it expires
+      if (tokenRef.current && Date.now() < tokenExpiresAtRef.current) {
+        setTokenStatus({ state: "failed", expiresAt: tokenExpiresAtRef.current, error: message });
+        throw err;
+      }
+      setError(message);
       setToken(null);
       tokenRef.current = null;
       setTools([]);
+      setResources([]);
+      setPrompts([]);
+      setTokenStatus({ state: "failed", expiresAt: null, error: message });
       throw err;
-    } finally {
-      isRefreshingRef.current = false;
     }
-  }, [isConfigured]);
+  }, []);
+
+  // Starts a refresh, or joins the one already running
+  const doRefreshToken = useCallback((): Promise<string> => {
+    if (!refreshPromiseRef.current) {
+      const refresh = runRefresh().finally(() => {
+        if (refreshPromiseRef.current === refresh) refreshPromiseRef.current = null;
+      });
+      refreshPromiseRef.current = refresh;
+    }
+    return refreshPromiseRef.current;
+  }, [runRefresh]);
 
   const refreshToken = useCallback(async () => {
     setIsLoading(true);
@@ -103,8 +283,10 @@ export function CDataProvider({ children }: { children: ReactNode }) {
   }, [doRefreshToken]);
 
   // Check if token needs refresh (expired or about to expire)
+  // The background timer refreshes ahead of expiry, so calls only wait for a refresh
+  // once the token has actually expired
   const isTokenExpired = useCallback(() => {
-    return !tokenRef.current || Date.now() >= tokenExpiryRef.current;
+    return !tokenRef.current || Date.now() >= tokenExpiresAtRef.current;
   }, []);
 
   // Get a valid token, refreshing if necessary
@@ -123,15 +305,9 @@ export function CDataProvider({ children }: { children: ReactNode }) {
     try {
       return await apiCall(currentToken);
     } catch (err) {
-      // Check if it's an auth error (401 or auth-related message)
-      const isAuthError = err instanceof Error && (
-        err.message.includes("401") ||
-        err.message.toLowerCase().includes("unauthorized") ||
-        err.message.toLowerCase().includes("authentication") ||
-        err.message.toLowerCase().includes("token")
-      );
-
-      if (isAuthError) {
+      // Only an auth failure is worth a new token; lib/cdata.ts already retried
+      // rate limits and server errors
+      if (err instanceof AuthError) {
         // Force refresh and retry once
         console.log("Auth error detected, refreshing token and retrying...");
         const newToken = await doRefreshToken();
@@ -141,23 +317,245 @@ export function CDataProvider({ children }: { children: ReactNode }) {
     }
   }, [getValidToken, doRefreshToken]);
 
+  // Reports a call to the audit log once it settles, including calls that were blocked
+  // or failed. `run` may add details, such as the SQL that actually ran.
+  const audited = useCallback(
+    async <T,>(
+      call: AuditCall,
+      run: (details: Partial<AuditEntry>) => Promise<T>,
+      getRowCount?: (result: T) => number | undefined
+    ): Promise<T> => {
+      const startTime = Date.now();
+      const details: Partial<AuditEntry> = {};
+      const report = (outcome: Pick<AuditEntry, "rowCount" | "error">) =>
+        recordAudit({
+          ...call,
+          ...details,
+          ...outcome,
+          timestamp: new Date(startTime).toISOString(),
+          durationMs: Date.now() - startTime,
+        });
+
+      try {
+        const result = await run(details);
+        report({ rowCount: getRowCount?.(result) });
+        return result;
+      } catch (err) {
+        report({ error: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+    },
+    []
+  );
+
+  // Every query is checked against the user's role before it runs, and the role's row
+  // filters are injected. Admins are unrestricted.
+  const prepareQuery = useCallback(
+    async (sql: string): Promise<{ sql: string; rowFilters: string[] }> => {
+      if (!user || user.role === ADMIN_ROLE) return { sql, rowFilters: [] };
+      const policy = await getRolePolicy();
+      const allowedSql = enforceSchemaPermissions(sql, policy, policy?.label ?? user.role);
+      return applyRowFilters(allowedSql, policy, user);
+    },
+    [getRolePolicy, user]
+  );
+
+  // Read-only mode: writes are blocked for non-admins and need an admin's approval
+  const guardWrite = useCallback(
+    async (operation: WriteOperation | null) => {
+      if (!operation) return;
+      if (user?.role !== ADMIN_ROLE) {
+        const what = operation.source === "sql" ? `${operation.actions.join(", ")} statements` : `the "${operation.source}" tool`;
+        throw new WriteBlockedError(`Read-only mode: your role cannot run ${what}. Only admins can change data.`);
+      }
+      if (!(await confirmWrite(operation))) {
+        throw new WriteDeclinedError();
+      }
+    },
+    [user, confirmWrite]
+  );
+
+  const invalidateQueryCache = useCallback(
+    (origin?: AuditOrigin) =>
+      queryClient.invalidateQueries({
+        queryKey: [QUERY_CACHE_KEY],
+        // Nothing observes these queries; the next read fetches
+        refetchType: "none",
+        predicate: (query) => !origin || !!cacheOriginsRef.current.get(query.queryHash)?.has(origin),
+      }),
+    [queryClient]
+  );
+
+  // Connects to the enabled servers an admin registered in Settings and lists their
+  // tools. A server that can't be reached is reported in Settings; the Advisor goes on
+  // without it.
+  const reloadMCPServers = useCallback(async () => {
+    const run = ++serversLoadRef.current;
+    let servers: MCPServerConfig[] = [];
+    if (userId) {
+      servers = await fetchMCPServers().catch((err) => {
+        console.error("Failed to load MCP servers:", err);
+        return [];
+      });
+    }
+    if (run !== serversLoadRef.current) return;
+
+    // Sessions of servers that were removed or disabled are no longer needed
+    const enabledURLs = servers.filter((server) => server.enabled).map((server) => getServerEndpoint(server).url);
+    for (const url of serverURLsRef.current) {
+      if (!enabledURLs.includes(url)) endMCPSession(url);
+    }
+    serverURLsRef.current = enabledURLs;
+
+    setMCPServers(servers.map((server) => ({
+      server,
+      state: server.enabled ? "loading" : "disabled",
+      tools: [],
+      error: null,
+    })));
+    const loaded = await Promise.all(servers.map(async (server): Promise<MCPServerStatus> => {
+      if (!server.enabled) return { server, state: "disabled", tools: [], error: null };
+      try {
+        const serverTools = await listServerTools(getServerEndpoint(server));
+        return { server, state: "connected", tools: namespaceTools(server, serverTools), error: null };
+      } catch (err) {
+        const message = err instanceof Error ? err.message : "Failed to connect";
+        return { server, state: "error", tools: [], error: message };
+      }
+    }));
+    if (run === serversLoadRef.current) setMCPServers(loaded);
+  }, [userId]);
+
+  // Also runs on sign-out, which ends the previous user's sessions
+  useEffect(() => {
+    reloadMCPServers();
+  }, [reloadMCPServers]);
+
+  const advisorTools = useMemo(
+    () => [...tools, ...mcpServers.flatMap((status) => status.tools)],
+    [tools, mcpServers]
+  );
+
   const callTool = useCallback(
-    async (name: string, args: Record<string, unknown>) => {
-      return withAutoRefresh((t) => callMCPTool(t, name, args));
+    async (
+      name: string,
+      args: Record<string, unknown>,
+      signal?: AbortSignal,
+      onProgress?: (progress: MCPProgress) => void,
+      origin: AuditOrigin = "advisor"
+    ) => {
+      const sql = getToolSql(name, args);
+      const call: AuditCall = { origin, kind: "tool", tool: name, args, sql };
+      return audited(call, async (details) => {
+        const write = classifyToolCall(advisorTools.find((tool) => tool.name === name), name, args);
+        await guardWrite(write);
+
+        // Namespaced tools belong to another MCP server
+        const route = splitToolName(name);
+        const owner = route && mcpServers.find(
+          (status) => status.state === "connected" && status.server.id === route.serverId
+        );
+        if (route && owner) {
+          return callServerTool(getServerEndpoint(owner.server), route.toolName, args, signal, onProgress);
+        }
+
+        // SQL tools (queryData, execData) get the same permission checks and row
+        // filters as queryData calls, whether the statement reads or writes
+        let toolArgs = args;
+        if (sql !== undefined) {
+          const prepared = await prepareQuery(sql);
+          toolArgs = { ...args, query: prepared.sql };
+          if (prepared.sql !== sql) details.executedSql = prepared.sql;
+        }
+        const result = await withAutoRefresh((t) => callMCPTool(t, name, toolArgs, signal, onProgress));
+        if (write) invalidateQueryCache();
+        return result;
+      }, countToolRows);
     },
-    [withAutoRefresh]
+    [withAutoRefresh, prepareQuery, guardWrite, advisorTools, mcpServers, audited, invalidateQueryCache]
   );
 
+  // Looks the SQL up in the query cache. Fresh results are hits; stale ones are
+  // returned as-is when the caller revalidates in the background, otherwise fetched again.
+  const readQueryCache = useCallback(
+    async (
+      sql: string,
+      origin: AuditOrigin,
+      options: QueryCacheOptions,
+      run: () => Promise<APIQueryResponse>
+    ): Promise<{ response: APIQueryResponse; cache: CacheStatus; refetch: () => Promise<APIQueryResponse> }> => {
+      const subscriber = decodeJWTClaims(await getValidToken()).sub ?? userIdRef.current ?? "";
+      const queryKey = getQueryCacheKey(subscriber, sql);
+      const hash = hashKey(queryKey);
+      const origins = cacheOriginsRef.current.get(hash) ?? new Set<AuditOrigin>();
+      cacheOriginsRef.current.set(hash, origins.add(origin));
+
+      // fetchQuery shares an in-flight request for the same key
+      const refetch = () =>
+        queryClient.fetchQuery({ queryKey, queryFn: run, staleTime: 0, gcTime: QUERY_CACHE_RETENTION });
+
+      const state = queryClient.getQueryState<APIQueryResponse>(queryKey);
+      if (state?.data !== undefined && !state.isInvalidated) {
+        if (Date.now() - state.dataUpdatedAt < (options.ttl ?? DEFAULT_QUERY_TTL)) {
+          return { response: state.data, cache: "hit", refetch };
+        }
+        if (options.onRevalidate) {
+          return { response: state.data, cache: "stale", refetch };
+        }
+      }
+      return { response: await refetch(), cache: "miss", refetch };
+    },
+    [getValidToken, queryClient]
+  );
+
+  // Reads go through the query cache; writes always run and then invalidate it,
+  // since any cached result may be out of date
   const queryData = useCallback(
-    async (sql: string): Promise<APIQueryResponse> => {
-      return withAutoRefresh((t) => cdataQueryData(t, sql));
+    async (sql: string, origin: AuditOrigin, options: QueryCacheOptions = {}): Promise<APIQueryResponse> => {
+      return audited({ origin, kind: "query", sql }, async (details) => {
+        const write = classifySql(sql);
+        await guardWrite(write);
+        const prepared = await prepareQuery(sql);
+        const run = () => withAutoRefresh((t) => cdataQueryData(t, prepared.sql));
+        const describe = (response: APIQueryResponse, cache?: CacheStatus): APIQueryResponse => {
+          if (prepared.sql === sql) return { ...response, cache };
+          return {
+            ...response,
+            cache,
+            executedSql: prepared.sql,
+            rowFilters: prepared.rowFilters.length > 0 ? prepared.rowFilters : undefined,
+          };
+        };
+        if (prepared.sql !== sql) details.executedSql = prepared.sql;
+
+        if (write) {
+          const response = await run();
+          invalidateQueryCache();
+          return describe(response);
+        }
+
+        const cached = await readQueryCache(prepared.sql, origin, options, run);
+        details.cache = cached.cache;
+        const onRevalidate = options.onRevalidate;
+        if (cached.cache === "stale" && onRevalidate) {
+          // The refresh is a call of its own in the audit log
+          audited(
+            { origin, kind: "query", sql, executedSql: details.executedSql, cache: "miss" },
+            async () => describe(await cached.refetch(), "miss"),
+            countRows
+          )
+            .then(onRevalidate)
+            .catch((err) => console.warn("Background refresh failed:", err));
+        }
+        return describe(cached.response, cached.cache);
+      }, countRows);
     },
-    [withAutoRefresh]
+    [withAutoRefresh, prepareQuery, guardWrite, audited, readQueryCache, invalidateQueryCache]
   );
 
   const queryDataAsObjects = useCallback(
-    async <T,>(sql: string): Promise<T[]> => {
-      const response = await queryData(sql);
+    async <T,>(sql: string, origin: AuditOrigin, options?: QueryCacheOptions): Promise<T[]> => {
+      const response = await queryData(sql, origin, options);
       if (response.results?.[0]) {
         return queryResultToObjects<T>(response.results[0]);
       }
@@ -166,31 +564,109 @@ export function CDataProvider({ children }: { children: ReactNode }) {
     [queryData]
   );
 
+  // Connection management is audited too, under the "connections" origin
   const listConnections = useCallback(async (): Promise<Connection[]> => {
-    return withAutoRefresh((t) => cdataListConnections(t));
-  }, [withAutoRefresh]);
+    return audited(
+      { origin: "connections", kind: "connection", tool: "listConnections" },
+      () => withAutoRefresh((t) => cdataListConnections(t)),
+      (connections) => connections.length
+    );
+  }, [withAutoRefresh, audited]);
 
   const deleteConnection = useCallback(
     async (connectionId: string): Promise<void> => {
-      return withAutoRefresh((t) => cdataDeleteConnection(t, connectionId));
+      return audited(
+        { origin: "connections", kind: "connection", tool: "deleteConnection", args: { connectionId } },
+        () => withAutoRefresh((t) => cdataDeleteConnection(t, connectionId))
+      );
     },
-    [withAutoRefresh]
+    [withAutoRefresh, audited]
   );
 
   const getConnectionCreateURL = useCallback(
     async (driver: string, connectionName: string): Promise<string> => {
-      return withAutoRefresh((t) => cdataGetConnectionCreateURL(t, driver, connectionName));
+      return audited(
+        { origin: "connections", kind: "connection", tool: "getConnectionCreateURL", args: { driver, connectionName } },
+        () => withAutoRefresh((t) => cdataGetConnectionCreateURL(t, driver, connectionName))
+      );
     },
-    [withAutoRefresh]
+    [withAutoRefresh, audited]
   );
 
   const getGenericConnectionURL = useCallback(async (): Promise<string> => {
-    return withAutoRefresh((t) => cdataGetGenericConnectionURL(t));
-  }, [withAutoRefresh]);
+    return audited(
+      { origin: "connections", kind: "connection", tool: "getGenericConnectionURL" },
+      () => withAutoRefresh((t) => cdataGetGenericConnectionURL(t))
+    );
+  }, [withAutoRefresh, audited]);
 
+  // Ask the server whether credentials are configured, then issue a token.
+  // Re-runs when the signed-in user changes so the token carries the right subscriber;
+  // tokens are only issued to signed-in users.
   useEffect(() => {
-    refreshToken();
-  }, [refreshToken]);
+    let cancelled = false;
+
+    userIdRef.current = userId;
+    tokenRef.current = null;
+    tokenExpiryRef.current = 0;
+    tokenExpiresAtRef.current = 0;
+    // A refresh still running belongs to the previous user, as does the MCP session
+    refreshPromiseRef.current = null;
+    endMCPSession();
+    // Cached results may hold the previous user's rows
+    queryClient.removeQueries({ queryKey: [QUERY_CACHE_KEY] });
+    cacheOriginsRef.current.clear();
+
+    const initialize = async () => {
+      if (!userId) {
+        setIsLoading(false);
+        return;
+      }
+
+      setIsLoading(true);
+      const configured = await hasCredentials();
+      if (cancelled) return;
+      setIsConfigured(configured);
+
+      if (!configured) {
+        setIsLoading(false);
+        return;
+      }
+      refreshToken().catch(() => {
+        // Error state is set by doRefreshToken
+      });
+    };
+
+    initialize();
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshToken, userId, queryClient]);
+
+  // Refresh the token in the background ahead of expiry, so calls never wait for it.
+  // Timers stop while the tab is hidden; on return an overdue refresh runs at once.
+  useEffect(() => {
+    if (!token) return;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      if (document.hidden) return;
+      const refreshAt = tokenStatus.state === "failed"
+        ? Math.min(Date.now() + REFRESH_RETRY_MS, tokenExpiresAtRef.current)
+        : tokenExpiryRef.current;
+      timer = setTimeout(() => {
+        doRefreshToken().catch((err) => console.warn("Background token refresh failed:", err));
+      }, Math.max(0, refreshAt - Date.now()));
+    };
+
+    schedule();
+    document.addEventListener("visibilitychange", schedule);
+    return () => {
+      clearTimeout(timer);
+      document.removeEventListener("visibilitychange", schedule);
+    };
+  }, [token, tokenStatus.state, doRefreshToken]);
 
   return (
     <CDataContext.Provider
@@ -198,13 +674,19 @@ export function CDataProvider({ children }: { children: ReactNode }) {
         isConfigured,
         isLoading,
         token,
+        tokenStatus,
         mcpBaseURL: getMCPBaseURL(),
-        tools,
+        tools: advisorTools,
+        mcpServers,
+        reloadMCPServers,
+        resources,
+        prompts,
         error,
         refreshToken,
         callTool,
         queryData,
         queryDataAsObjects,
+        invalidateQueryCache,
         listConnections,
         deleteConnection,
         getConnectionCreateURL,
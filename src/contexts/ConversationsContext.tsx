@@ -0,0 +1,198 @@
+import { createContext, useContext, useState, useEffect, useCallback, useMemo, useRef, ReactNode } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { createObjectStore } from "@/lib/idb";
+import type { LLMDebugLogs } from "@/lib/llm";
+
+export interface ProcessingStep {
+  id: string;
+  type: "thinking" | "tool_start" | "tool_complete" | "tool_error" | "cancelled" | "limit_reached";
+  content?: string;
+  toolName?: string;
+  status: "pending" | "complete" | "error";
+}
+
+export interface ExtractedQuery {
+  sql: string;
+  toolName: string;
+}
+
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  timestamp: Date;
+  toolCalls?: { name: string; result: unknown; input?: Record<string, unknown> }[];
+  debugLogs?: LLMDebugLogs;
+  processingSteps?: ProcessingStep[];
+  extractedQueries?: ExtractedQuery[];
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface ConversationsContextValue {
+  conversations: Conversation[];
+  isLoading: boolean;
+  activeConversationId: string | null;
+  setActiveConversationId: (id: string | null) => void;
+  saveConversation: (id: string, messages: ChatMessage[]) => void;
+  renameConversation: (id: string, title: string) => void;
+  deleteConversation: (id: string) => void;
+  getConversation: (id: string | null) => Conversation | undefined;
+  searchConversations: (query: string) => Conversation[];
+}
+
+// IndexedDB rather than localStorage - debug logs easily exceed the localStorage quota.
+// One database per user so people sharing a browser don't see each other's conversations.
+const DB_NAME_PREFIX = "sightline-conversations";
+
+function dbName(userEmail: string | undefined): string {
+  return `${DB_NAME_PREFIX}:${userEmail ?? "anonymous"}`;
+}
+
+const ConversationsContext = createContext<ConversationsContextValue | null>(null);
+
+function sortByRecent(conversations: Conversation[]): Conversation[] {
+  return [...conversations].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+}
+
+// Generate a title from the first user message
+function generateConversationTitle(messages: ChatMessage[]): string {
+  const firstUserMessage = messages.find((m) => m.role === "user");
+  if (!firstUserMessage) return "New conversation";
+
+  const text = firstUserMessage.content.trim().replace(/\s+/g, " ");
+  if (text.length <= 50) return text;
+
+  // Cut at a word boundary
+  const truncated = text.slice(0, 50);
+  const lastSpace = truncated.lastIndexOf(" ");
+  return `${lastSpace > 20 ? truncated.slice(0, lastSpace) : truncated}…`;
+}
+
+export function ConversationsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const userEmail = user?.email;
+  const store = useMemo(
+    () => createObjectStore<Conversation>(dbName(userEmail), "conversations"),
+    [userEmail]
+  );
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+
+  // Drop the previous user's conversations as soon as the user changes (including logout)
+  const [loadedUserEmail, setLoadedUserEmail] = useState(userEmail);
+  if (loadedUserEmail !== userEmail) {
+    setLoadedUserEmail(userEmail);
+    setConversations([]);
+    setActiveConversationId(null);
+    setIsLoading(true);
+  }
+
+  // Load the signed-in user's stored conversations
+  useEffect(() => {
+    let cancelled = false;
+    store
+      .getAll()
+      .then((stored) => {
+        if (!cancelled) setConversations(sortByRecent(stored));
+      })
+      .catch((err) => console.error("Failed to load conversations:", err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [store]);
+
+  // The latest conversations, so saves can be built and persisted outside state updaters
+  const conversationsRef = useRef(conversations);
+  conversationsRef.current = conversations;
+
+  const persist = useCallback((conversation: Conversation) => {
+    store.put(conversation).catch((err) => console.error("Failed to save conversation:", err));
+  }, [store]);
+
+  const saveConversation = useCallback((id: string, messages: ChatMessage[]) => {
+    const existing = conversationsRef.current.find((c) => c.id === id);
+    const now = new Date();
+    const conversation: Conversation = existing
+      ? { ...existing, messages, updatedAt: now }
+      : {
+          id,
+          title: generateConversationTitle(messages),
+          messages,
+          createdAt: now,
+          updatedAt: now,
+        };
+    persist(conversation);
+    setConversations((prev) => sortByRecent([conversation, ...prev.filter((c) => c.id !== id)]));
+  }, [persist]);
+
+  const renameConversation = useCallback((id: string, title: string) => {
+    const trimmed = title.trim();
+    if (!trimmed) return;
+
+    const existing = conversationsRef.current.find((c) => c.id === id);
+    if (!existing) return;
+
+    const renamed = { ...existing, title: trimmed };
+    persist(renamed);
+    setConversations((prev) => prev.map((c) => (c.id === id ? renamed : c)));
+  }, [persist]);
+
+  const deleteConversation = useCallback((id: string) => {
+    setConversations((prev) => prev.filter((c) => c.id !== id));
+    setActiveConversationId((prev) => (prev === id ? null : prev));
+    store.delete(id).catch((err) => console.error("Failed to delete conversation:", err));
+  }, [store]);
+
+  const getConversation = useCallback((id: string | null) => {
+    return id ? conversations.find((c) => c.id === id) : undefined;
+  }, [conversations]);
+
+  // Match against titles and message text
+  const searchConversations = useCallback((query: string) => {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) return conversations;
+
+    return conversations.filter((c) =>
+      c.title.toLowerCase().includes(normalized) ||
+      c.messages.some((m) => m.content.toLowerCase().includes(normalized))
+    );
+  }, [conversations]);
+
+  return (
+    <ConversationsContext.Provider
+      value={{
+        conversations,
+        isLoading,
+        activeConversationId,
+        setActiveConversationId,
+        saveConversation,
+        renameConversation,
+        deleteConversation,
+        getConversation,
+        searchConversations,
+      }}
+    >
+      {children}
+    </ConversationsContext.Provider>
+  );
+}
+
+export function useConversations() {
+  const context = useContext(ConversationsContext);
+  if (!context) {
+    throw new Error("useConversations must be used within a ConversationsProvider");
+  }
+  return context;
+}
@@ -1,6 +1,10 @@
 import { createContext, useContext, useState, useCallback, useRef, useEffect, ReactNode } from "react";
 import { useCData } from "@/contexts/CDataContext";
+import { useAuth } from "@/contexts/AuthContext";
 import { useDataSources } from "@/contexts/DataSourcesContext";
+import { queryResultToObjects, type APIQueryResponse, type CacheStatus, type QueryResult } from "@/lib/cdata";
+import type { ChartType } from "@/lib/queryResults";
+import { DASHBOARD_QUERY_TTL } from "@/lib/queryCache";
 import type { CustomerHealthData, ContractData, TicketPriorityData, JobsByHealthData } from "@/hooks/useDashboardData";
 
 // Raw types from API
@@ -40,6 +44,55 @@ export interface ExecutedQuery {
   duration?: number;
   rowCount?: number;
   error?: string;
+  // Row filters injected for the user's role (the SQL above already includes them)
+  rowFilters?: string[];
+  // Whether the rows came from the query cache
+  cache?: CacheStatus;
+}
+
+// User-pinned dashboard widgets (from saved queries or Advisor answers)
+export interface PinnedWidget {
+  id: string;
+  title: string;
+  sql: string;
+  visualization: "table" | ChartType;
+  /** Auto-refresh interval in ms; 0 disables auto-refresh */
+  refreshInterval: number;
+  source: "advisor" | "saved-query";
+  createdAt: Date;
+}
+
+export interface PinnedWidgetData {
+  result: QueryResult | null;
+  loading: boolean;
+  error: string | null;
+  lastUpdated?: Date;
+}
+
+const WIDGETS_STORAGE_KEY_PREFIX = "sightline-pinned-widgets";
+
+// Widgets are saved per user so people sharing a browser each see their own
+function widgetsStorageKey(userEmail: string | undefined): string {
+  return `${WIDGETS_STORAGE_KEY_PREFIX}:${userEmail ?? "anonymous"}`;
+}
+
+function loadWidgetsFromStorage(key: string): PinnedWidget[] {
+  try {
+    const stored = localStorage.getItem(key);
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    // Convert date strings back to Date objects
+    return parsed.map((w: PinnedWidget) => ({
+      ...w,
+      createdAt: new Date(w.createdAt),
+    }));
+  } catch {
+    return [];
+  }
+}
+
+function saveWidgetsToStorage(key: string, widgets: PinnedWidget[]) {
+  localStorage.setItem(key, JSON.stringify(widgets));
 }
 
 interface DashboardDataState {
@@ -80,12 +133,47 @@ interface DashboardDataContextValue extends DashboardDataState {
   clearQueries: () => void;
   getQueriesByName: (name: string) => ExecutedQuery[];
   isRefreshing: boolean;
+
+  // Pinned widgets
+  pinnedWidgets: PinnedWidget[];
+  widgetData: Record<string, PinnedWidgetData>;
+  pinWidget: (widget: Omit<PinnedWidget, "id" | "createdAt">) => void;
+  updateWidget: (id: string, updates: Partial<Pick<PinnedWidget, "title" | "visualization" | "refreshInterval">>) => void;
+  removeWidget: (id: string) => void;
+  refreshWidget: (id: string) => void;
 }
 
 const DashboardDataContext = createContext<DashboardDataContextValue | null>(null);
 
+const INITIAL_STATE: DashboardDataState = {
+  customerHealth: [],
+  customerHealthLoading: true,
+  customerHealthLoadingMore: false,
+  customerHealthError: null,
+  customerHealthHasMore: true,
+  customerHealthOffset: 0,
+
+  contracts: [],
+  contractsLoading: true,
+  contractsLoadingMore: false,
+  contractsError: null,
+  contractsHasMore: true,
+  contractsOffset: 0,
+
+  ticketsByPriority: [],
+  ticketsByPriorityLoading: true,
+  ticketsByPriorityError: null,
+
+  jobsByHealth: [],
+  jobsByHealthLoading: true,
+  jobsByHealthError: null,
+
+  executedQueries: [],
+};
+
 export function DashboardDataProvider({ children }: { children: ReactNode }) {
-  const { queryDataAsObjects, isLoading: isAuthLoading, isConfigured, token } = useCData();
+  const { queryData, invalidateQueryCache, isLoading: isAuthLoading, isConfigured, token } = useCData();
+  const { user } = useAuth();
   const { snowflakeConnection, zendeskConnection, salesforceConnection } = useDataSources();
 
   // Get connection names for SQL queries (these are the catalog names in CData)
@@ -100,45 +188,52 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
     salesforceConnName: string | undefined;
   }>({ zendeskConnName: undefined, snowflakeConnName: undefined, salesforceConnName: undefined });
   const hasFetchedRef = useRef(false);
+  const hasFetchedWidgetsRef = useRef(false);
   const [isRefreshing, setIsRefreshing] = useState(false);
 
   // All dashboard state
-  const [state, setState] = useState<DashboardDataState>({
-    customerHealth: [],
-    customerHealthLoading: true,
-    customerHealthLoadingMore: false,
-    customerHealthError: null,
-    customerHealthHasMore: true,
-    customerHealthOffset: 0,
-
-    contracts: [],
-    contractsLoading: true,
-    contractsLoadingMore: false,
-    contractsError: null,
-    contractsHasMore: true,
-    contractsOffset: 0,
-
-    ticketsByPriority: [],
-    ticketsByPriorityLoading: true,
-    ticketsByPriorityError: null,
-
-    jobsByHealth: [],
-    jobsByHealthLoading: true,
-    jobsByHealthError: null,
-
-    executedQueries: [],
-  });
+  const [state, setState] = useState<DashboardDataState>(INITIAL_STATE);
+
+  const widgetsKey = widgetsStorageKey(user?.email);
+  const [pinnedWidgets, setPinnedWidgets] = useState<PinnedWidget[]>(() => loadWidgetsFromStorage(widgetsKey));
+  const [widgetData, setWidgetData] = useState<Record<string, PinnedWidgetData>>({});
+
+  // Swap in the next user's widgets before the persist effect below can save the
+  // previous user's under the new key
+  const [loadedWidgetsKey, setLoadedWidgetsKey] = useState(widgetsKey);
+  if (loadedWidgetsKey !== widgetsKey) {
+    setLoadedWidgetsKey(widgetsKey);
+    setPinnedWidgets(loadWidgetsFromStorage(widgetsKey));
+  }
+
+  const pinnedWidgetsRef = useRef(pinnedWidgets);
+  pinnedWidgetsRef.current = pinnedWidgets;
+
+  // Persist pinned widgets to localStorage whenever they change
+  useEffect(() => {
+    saveWidgetsToStorage(widgetsKey, pinnedWidgets);
+  }, [pinnedWidgets, widgetsKey]);
 
   // Helper to track executed queries
-  const trackQuery = useCallback((name: string, sql: string, startTime: number, rowCount?: number, error?: string) => {
+  // `executed` records the SQL that actually ran when permissions rewrote it
+  const trackQuery = useCallback((
+    name: string,
+    sql: string,
+    startTime: number,
+    rowCount?: number,
+    error?: string,
+    executed?: APIQueryResponse
+  ) => {
     const query: ExecutedQuery = {
       id: `${name}-${Date.now()}`,
       name,
-      sql: sql.trim().replace(/\s+/g, ' '),
+      sql: (executed?.executedSql ?? sql).trim().replace(/\s+/g, ' '),
       timestamp: new Date(),
       duration: Date.now() - startTime,
       rowCount,
       error,
+      rowFilters: executed?.rowFilters,
+      cache: executed?.cache,
     };
     setState(prev => ({
       ...prev,
@@ -146,6 +241,13 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
     }));
   }, []);
 
+  // Run a query for a dashboard section, keeping the response for trackQuery
+  const runQuery = useCallback(async <T,>(sql: string) => {
+    const executed = await queryData(sql, "dashboard", { ttl: DASHBOARD_QUERY_TTL });
+    const rows = executed.results?.[0] ? queryResultToObjects<T>(executed.results[0]) : [];
+    return { rows, executed };
+  }, [queryData]);
+
   // Clear executed queries (called on refresh)
   const clearQueries = useCallback(() => {
     setState(prev => ({ ...prev, executedQueries: [] }));
@@ -179,8 +281,8 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
          WHERE [Active__c] = 'Yes'
          LIMIT ${PAGE_SIZE} OFFSET ${offset}`;
       const accountStart = Date.now();
-      const rows = await queryDataAsObjects<SalesforceAccount>(accountSql);
-      trackQuery("Customer Accounts", accountSql, accountStart, rows.length);
+      const { rows, executed } = await runQuery<SalesforceAccount>(accountSql);
+      trackQuery("Customer Accounts", accountSql, accountStart, rows.length, undefined, executed);
 
       // Fetch ticket counts if Zendesk is connected
       let ticketsByAccount: Record<string, { open: number; urgent: number }> = {};
@@ -191,8 +293,9 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
              WHERE [Status] NOT IN ('solved', 'closed')
              GROUP BY [AccountId], [Priority]`;
           const ticketStart = Date.now();
-          const ticketRows = await queryDataAsObjects<{ AccountId: string; Priority: string; TicketCount: number }>(ticketSql);
-          trackQuery("Tickets by Account", ticketSql, ticketStart, ticketRows.length);
+          const { rows: ticketRows, executed: ticketExecuted } =
+            await runQuery<{ AccountId: string; Priority: string; TicketCount: number }>(ticketSql);
+          trackQuery("Tickets by Account", ticketSql, ticketStart, ticketRows.length, undefined, ticketExecuted);
 
           for (const row of ticketRows) {
             if (!row.AccountId) continue;
@@ -241,7 +344,7 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
         customerHealthError: err instanceof Error ? err.message : "Failed to fetch customer data",
       }));
     }
-  }, [queryDataAsObjects, isConfigured, token, state.customerHealthOffset, trackQuery]);
+  }, [runQuery, isConfigured, token, state.customerHealthOffset, trackQuery]);
 
   // Fetch contracts data
   const fetchContracts = useCallback(async (loadMore = false, salesforceCatalog: string | undefined) => {
@@ -264,8 +367,8 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
          ORDER BY o.[CloseDate] ASC
          LIMIT ${PAGE_SIZE} OFFSET ${offset}`;
       const contractStart = Date.now();
-      const rows = await queryDataAsObjects<SalesforceOpportunity>(contractSql);
-      trackQuery("Open Opportunities", contractSql, contractStart, rows.length);
+      const { rows, executed } = await runQuery<SalesforceOpportunity>(contractSql);
+      trackQuery("Open Opportunities", contractSql, contractStart, rows.length, undefined, executed);
 
       const newData = rows.map((row) => ({
         id: row.Id,
@@ -292,7 +395,7 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
         contractsError: err instanceof Error ? err.message : "Failed to fetch contracts data",
       }));
     }
-  }, [queryDataAsObjects, isConfigured, token, state.contractsOffset, trackQuery]);
+  }, [runQuery, isConfigured, token, state.contractsOffset, trackQuery]);
 
   // Fetch tickets by priority
   const fetchTicketsByPriority = useCallback(async (zendeskCatalog: string | undefined) => {
@@ -305,8 +408,8 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
          FROM [${zendeskCatalog}].[Zendesk].[Tickets]
          GROUP BY [Priority]`;
       const ticketPriorityStart = Date.now();
-      const rows = await queryDataAsObjects<ZendeskTicketCount>(ticketPrioritySql);
-      trackQuery("Tickets by Priority", ticketPrioritySql, ticketPriorityStart, rows.length);
+      const { rows, executed } = await runQuery<ZendeskTicketCount>(ticketPrioritySql);
+      trackQuery("Tickets by Priority", ticketPrioritySql, ticketPriorityStart, rows.length, undefined, executed);
 
       setState(prev => ({
         ...prev,
@@ -323,7 +426,7 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
         ticketsByPriorityError: err instanceof Error ? err.message : "Failed to fetch ticket data",
       }));
     }
-  }, [queryDataAsObjects, isConfigured, token, trackQuery]);
+  }, [runQuery, isConfigured, token, trackQuery]);
 
   // Fetch jobs by health - aggregation done in SQL for performance
   const fetchJobsByHealth = useCallback(async (snowflakeCatalog: string | undefined) => {
@@ -360,8 +463,8 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
          ORDER BY EventDate DESC
          LIMIT 14`;
       const jobsStart = Date.now();
-      const rows = await queryDataAsObjects<{ EventDate: string; Healthy: number; Warning: number; Critical: number }>(jobsSql);
-      trackQuery("Jobs by Health", jobsSql, jobsStart, rows.length);
+      const { rows, executed } = await runQuery<{ EventDate: string; Healthy: number; Warning: number; Critical: number }>(jobsSql);
+      trackQuery("Jobs by Health", jobsSql, jobsStart, rows.length, undefined, executed);
 
       // Simple transformation: format dates and reverse for chronological order
       const chartData = rows
@@ -388,7 +491,86 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
         jobsByHealthError: err instanceof Error ? err.message : "Failed to fetch job health data",
       }));
     }
-  }, [queryDataAsObjects, isConfigured, token, trackQuery]);
+  }, [runQuery, isConfigured, token, trackQuery]);
+
+  // Fetch a pinned widget's query (tracked under the widget title for the SQL toggle).
+  // Cached results show at once and are refreshed in the background once stale;
+  // `refresh` skips the cache (the widget's refresh button and its auto-refresh).
+  const fetchWidget = useCallback(async (widget: PinnedWidget, refresh = false) => {
+    if (!isConfigured || !token) return;
+
+    setWidgetData(prev => ({
+      ...prev,
+      [widget.id]: { result: prev[widget.id]?.result ?? null, loading: true, error: null, lastUpdated: prev[widget.id]?.lastUpdated },
+    }));
+
+    const start = Date.now();
+    const showResponse = (response: APIQueryResponse) => {
+      const result = response.results?.[0] ?? { schema: [], rows: [] };
+      trackQuery(widget.title, widget.sql, start, result.rows.length, undefined, response);
+      setWidgetData(prev => ({
+        ...prev,
+        [widget.id]: { result, loading: false, error: null, lastUpdated: new Date() },
+      }));
+    };
+
+    try {
+      const response = await queryData(
+        widget.sql,
+        "dashboard",
+        refresh ? { ttl: 0 } : { ttl: DASHBOARD_QUERY_TTL, onRevalidate: showResponse }
+      );
+      showResponse(response);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : "Failed to run widget query";
+      trackQuery(widget.title, widget.sql, start, undefined, error);
+      setWidgetData(prev => ({
+        ...prev,
+        [widget.id]: { result: prev[widget.id]?.result ?? null, loading: false, error, lastUpdated: prev[widget.id]?.lastUpdated },
+      }));
+    }
+  }, [queryData, isConfigured, token, trackQuery]);
+
+  const fetchAllWidgets = useCallback(() => {
+    return Promise.all(pinnedWidgetsRef.current.map((widget) => fetchWidget(widget)));
+  }, [fetchWidget]);
+
+  const pinWidget = useCallback((widget: Omit<PinnedWidget, "id" | "createdAt">) => {
+    const newWidget: PinnedWidget = {
+      ...widget,
+      id: `widget-${Date.now()}`,
+      createdAt: new Date(),
+    };
+    setPinnedWidgets(prev => [...prev, newWidget]);
+    fetchWidget(newWidget);
+  }, [fetchWidget]);
+
+  const updateWidget = useCallback((id: string, updates: Partial<Pick<PinnedWidget, "title" | "visualization" | "refreshInterval">>) => {
+    const widget = pinnedWidgetsRef.current.find(w => w.id === id);
+    if (!widget) return;
+
+    const updated = { ...widget, ...updates };
+    setPinnedWidgets(prev => prev.map(w => (w.id === id ? updated : w)));
+
+    // Queries are tracked by title, so re-run after a rename to keep the SQL view populated
+    if (updates.title && updates.title !== widget.title) {
+      fetchWidget(updated);
+    }
+  }, [fetchWidget]);
+
+  const removeWidget = useCallback((id: string) => {
+    setPinnedWidgets(prev => prev.filter(w => w.id !== id));
+    setWidgetData(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  }, []);
+
+  const refreshWidget = useCallback((id: string) => {
+    const widget = pinnedWidgetsRef.current.find(w => w.id === id);
+    if (widget) fetchWidget(widget, true);
+  }, [fetchWidget]);
 
   // Fetch all data
   const fetchAllData = useCallback(async (
@@ -407,20 +589,24 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
     ]);
   }, [fetchCustomerHealth, fetchContracts, fetchTicketsByPriority, fetchJobsByHealth]);
 
-  // Manual refresh
-  const refreshAll = useCallback(() => {
+  // Manual refresh: skips cached results for everything on the dashboard
+  const refreshAll = useCallback(async () => {
     setIsRefreshing(true);
     clearQueries();
+    await invalidateQueryCache("dashboard");
     // Reset offsets
     setState(prev => ({
       ...prev,
       customerHealthOffset: 0,
       contractsOffset: 0,
     }));
-    fetchAllData(zendeskConnName, snowflakeConnName, salesforceConnName).finally(() => {
+    Promise.all([
+      fetchAllData(zendeskConnName, snowflakeConnName, salesforceConnName),
+      fetchAllWidgets(),
+    ]).finally(() => {
       setIsRefreshing(false);
     });
-  }, [fetchAllData, zendeskConnName, snowflakeConnName, salesforceConnName, clearQueries]);
+  }, [fetchAllData, fetchAllWidgets, zendeskConnName, snowflakeConnName, salesforceConnName, clearQueries, invalidateQueryCache]);
 
   // Load more handlers
   const loadMoreCustomerHealth = useCallback(() => {
@@ -435,6 +621,16 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
     }
   }, [fetchContracts, state.contractsLoadingMore, state.contractsHasMore, salesforceConnName]);
 
+  // Data belongs to the user's CData subscriber: clear it and fetch again once the
+  // next user's token is ready
+  useEffect(() => {
+    hasFetchedRef.current = false;
+    hasFetchedWidgetsRef.current = false;
+    prevDataSourcesRef.current = { zendeskConnName: undefined, snowflakeConnName: undefined, salesforceConnName: undefined };
+    setState(INITIAL_STATE);
+    setWidgetData({});
+  }, [user?.email]);
+
   // Initial fetch when token becomes available
   useEffect(() => {
     if (token && isConfigured && !isAuthLoading && !hasFetchedRef.current && salesforceConnName) {
@@ -443,6 +639,25 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
     }
   }, [token, isConfigured, isAuthLoading, fetchAllData, zendeskConnName, snowflakeConnName, salesforceConnName]);
 
+  // Load pinned widgets once a token is available (independent of the built-in sources)
+  useEffect(() => {
+    if (token && isConfigured && !isAuthLoading && !hasFetchedWidgetsRef.current) {
+      hasFetchedWidgetsRef.current = true;
+      fetchAllWidgets();
+    }
+  }, [token, isConfigured, isAuthLoading, fetchAllWidgets]);
+
+  // Auto-refresh pinned widgets on their configured intervals
+  useEffect(() => {
+    if (!token || !isConfigured) return;
+
+    const timers = pinnedWidgets
+      .filter(w => w.refreshInterval > 0)
+      .map(w => setInterval(() => refreshWidget(w.id), w.refreshInterval));
+
+    return () => timers.forEach(clearInterval);
+  }, [pinnedWidgets, token, isConfigured, refreshWidget]);
+
   // Selectively refetch when data sources change - only refresh affected visualizations
   // Data source dependencies:
   // - Customer Health: Salesforce (primary), Zendesk (tickets)
@@ -526,6 +741,12 @@ export function DashboardDataProvider({ children }: { children: ReactNode }) {
         clearQueries,
         getQueriesByName,
         isRefreshing,
+        pinnedWidgets,
+        widgetData,
+        pinWidget,
+        updateWidget,
+        removeWidget,
+        refreshWidget,
       }}
     >
       {children}
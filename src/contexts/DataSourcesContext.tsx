@@ -1,5 +1,6 @@
 import { createContext, useContext, useState, useCallback, useEffect, useRef, ReactNode } from "react";
 import { useCData } from "@/contexts/CDataContext";
+import { useAuth } from "@/contexts/AuthContext";
 
 export interface DataSourceState {
   id: string;
@@ -34,6 +35,7 @@ export const getCDataLogoURL = (driver: string) =>
 
 export function DataSourcesProvider({ children }: { children: ReactNode }) {
   const { token, isConfigured, isLoading: isAuthLoading, listConnections } = useCData();
+  const { user } = useAuth();
   const [dataSources, setDataSources] = useState<DataSourceState[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const hasFetchedRef = useRef(false);
@@ -111,6 +113,14 @@ export function DataSourcesProvider({ children }: { children: ReactNode }) {
   const zendeskConnection = getEnabledConnectionByDriver("Zendesk");
   const salesforceConnection = getEnabledConnectionByDriver("Salesforce");
 
+  // Each user maps to their own CData subscriber with its own connections,
+  // so start over when the user changes
+  useEffect(() => {
+    hasFetchedRef.current = false;
+    setDataSources([]);
+    setIsLoading(true);
+  }, [user?.email]);
+
   // Auto-fetch connections when token becomes available
   useEffect(() => {
     if (token && isConfigured && !isAuthLoading && !hasFetchedRef.current) {
@@ -0,0 +1,88 @@
+import { createContext, useContext, useState, useEffect, useCallback, useRef, ReactNode } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import {
+  ADMIN_ROLE,
+  fetchPermissions,
+  savePermissions as savePermissionsDocument,
+  type PermissionsDocument,
+  type RolePolicy,
+} from "@/lib/permissions";
+
+interface PermissionsContextValue {
+  // Every role for admins, the user's own role otherwise; null until loaded
+  permissions: PermissionsDocument | null;
+  // Policy applied to the current user; undefined for admins (full access)
+  rolePolicy: RolePolicy | undefined;
+  isAdmin: boolean;
+  // Resolves with the policy once loaded, so queries issued during sign-in are still checked
+  getRolePolicy: () => Promise<RolePolicy | undefined>;
+  savePermissions: (document: PermissionsDocument) => Promise<void>;
+}
+
+const PermissionsContext = createContext<PermissionsContextValue | null>(null);
+
+// Nothing is granted if permissions can't be loaded
+const EMPTY_PERMISSIONS: PermissionsDocument = { roles: {} };
+
+export function PermissionsProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [permissions, setPermissions] = useState<PermissionsDocument | null>(null);
+  const loadRef = useRef<Promise<PermissionsDocument> | null>(null);
+
+  const isAdmin = user?.role === ADMIN_ROLE;
+  const rolePolicy = isAdmin || !user ? undefined : permissions?.roles[user.role];
+
+  // Load the role permissions for the signed-in user
+  useEffect(() => {
+    setPermissions(null);
+    loadRef.current = null;
+    if (!user) return;
+
+    let cancelled = false;
+    const load = fetchPermissions().catch((err) => {
+      console.error("Failed to load schema permissions:", err);
+      return EMPTY_PERMISSIONS;
+    });
+    loadRef.current = load;
+    load.then((document) => {
+      if (!cancelled) setPermissions(document);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  const getRolePolicy = useCallback(async (): Promise<RolePolicy | undefined> => {
+    if (!user || user.role === ADMIN_ROLE) return undefined;
+    const document = await (loadRef.current ?? Promise.resolve(EMPTY_PERMISSIONS));
+    return document.roles[user.role];
+  }, [user]);
+
+  const savePermissions = useCallback(async (document: PermissionsDocument) => {
+    const saved = await savePermissionsDocument(document);
+    loadRef.current = Promise.resolve(saved);
+    setPermissions(saved);
+  }, []);
+
+  return (
+    <PermissionsContext.Provider
+      value={{
+        permissions,
+        rolePolicy,
+        isAdmin,
+        getRolePolicy,
+        savePermissions,
+      }}
+    >
+      {children}
+    </PermissionsContext.Provider>
+  );
+}
+
+export function usePermissions() {
+  const context = useContext(PermissionsContext);
+  if (!context) {
+    throw new Error("usePermissions must be used within a PermissionsProvider");
+  }
+  return context;
+}
@@ -2,6 +2,9 @@ import { createContext, useContext, useState, useCallback, useEffect, ReactNode
 import { useCData } from "@/contexts/CDataContext";
 import { useDataSources } from "@/contexts/DataSourcesContext";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePermissions } from "@/contexts/PermissionsContext";
+import { getSchemaAccess, getTableAccess, isColumnAllowed as isPolicyColumnAllowed } from "@/lib/permissions";
+import { SCHEMA_QUERY_TTL } from "@/lib/queryCache";
 
 export interface SchemaItem {
   type: "connection" | "schema" | "table" | "column";
@@ -23,30 +26,14 @@ interface SchemaContextValue {
 
 const SchemaContext = createContext<SchemaContextValue | null>(null);
 
-// Role-based schema filtering for non-admin users
-// Schema -> Table -> Columns
-const USER_ALLOWED_SCHEMA: Record<string, Record<string, string[]>> = {
-  Salesforce: {
-    Account: ["Id", "Name", "Industry", "AnnualRevenue", "Rating", "CustomerPriority__c", "Active__c"],
-    Opportunity: ["Id", "Name", "Amount", "CloseDate", "StageName", "Probability", "AccountId", "IsClosed"],
-  },
-  Zendesk: {
-    Tickets: ["Id", "Priority", "Status", "AccountId"],
-  },
-  TELEMETRY: {
-    SYNC_USAGE: ["LASTTELEMETRYEVENT", "S_STANDARDJOBRUNS", "REVENUEBUCKETLAST12M", "ACCOUNT_ID"],
-  },
-};
-
 export function SchemaProvider({ children }: { children: ReactNode }) {
-  const { queryData, isConfigured, isLoading: isAuthLoading, token } = useCData();
+  const { queryData, invalidateQueryCache, isConfigured, isLoading: isAuthLoading, token } = useCData();
   const { dataSources } = useDataSources();
   const { isAuthenticated, user } = useAuth();
   const [schemaTree, setSchemaTree] = useState<SchemaItem[]>([]);
   const [isLoadingSchema, setIsLoadingSchema] = useState(false);
   const [hasFetchedSchema, setHasFetchedSchema] = useState(false);
-
-  const isAdmin = user?.role === "admin";
+  const { permissions, rolePolicy, isAdmin } = usePermissions();
 
   // Get enabled connection names for filtering
   const enabledConnectionNames = new Set(
@@ -57,16 +44,16 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
 
   // Helper functions for role-based filtering
   const isSchemaAllowed = useCallback((schemaName: string) => {
-    return isAdmin || schemaName in USER_ALLOWED_SCHEMA;
-  }, [isAdmin]);
+    return isAdmin || getSchemaAccess(rolePolicy, schemaName) !== "none";
+  }, [isAdmin, rolePolicy]);
 
   const isTableAllowed = useCallback((schemaName: string, tableName: string) => {
-    return isAdmin || (USER_ALLOWED_SCHEMA[schemaName]?.[tableName] !== undefined);
-  }, [isAdmin]);
+    return isAdmin || getTableAccess(rolePolicy, schemaName, tableName) !== "none";
+  }, [isAdmin, rolePolicy]);
 
   const isColumnAllowed = useCallback((schemaName: string, tableName: string, columnName: string) => {
-    return isAdmin || (USER_ALLOWED_SCHEMA[schemaName]?.[tableName]?.includes(columnName) ?? false);
-  }, [isAdmin]);
+    return isAdmin || isPolicyColumnAllowed(rolePolicy, schemaName, tableName, columnName);
+  }, [isAdmin, rolePolicy]);
 
   // Load schema tree dynamically from CData Embedded Cloud
   const loadSchemaTree = useCallback(async () => {
@@ -83,7 +70,9 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
 
       // Get list of catalogs/connections from sys_catalogs
       const catalogsResult = await queryData(
-        "SELECT DISTINCT [CatalogName] FROM [sys_catalogs]"
+        "SELECT DISTINCT [CatalogName] FROM [sys_catalogs]",
+        "schema",
+        { ttl: SCHEMA_QUERY_TTL }
       );
 
       if (catalogsResult.results?.[0]) {
@@ -102,7 +91,9 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
       // Fallback: list tables directly from sys_tables
       try {
         const tablesResult = await queryData(
-          "SELECT [CatalogName], [SchemaName], [TableName] FROM [sys_tables] ORDER BY [CatalogName], [SchemaName], [TableName]"
+          "SELECT [CatalogName], [SchemaName], [TableName] FROM [sys_tables] ORDER BY [CatalogName], [SchemaName], [TableName]",
+          "schema",
+          { ttl: SCHEMA_QUERY_TTL }
         );
 
         if (tablesResult.results?.[0]) {
@@ -193,7 +184,9 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
         if (item.type === "connection") {
           // Load schemas for connection from sys_tables
           const result = await queryData(
-            `SELECT DISTINCT [SchemaName] FROM [sys_tables] WHERE [CatalogName] = '${item.name}'`
+            `SELECT DISTINCT [SchemaName] FROM [sys_tables] WHERE [CatalogName] = '${item.name}'`,
+            "schema",
+            { ttl: SCHEMA_QUERY_TTL }
           );
 
           if (result.results?.[0]) {
@@ -219,7 +212,9 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
           // Load tables for schema from sys_tables
           const catalogName = path[0];
           const result = await queryData(
-            `SELECT [TableName] FROM [sys_tables] WHERE [CatalogName] = '${catalogName}' AND [SchemaName] = '${item.name}'`
+            `SELECT [TableName] FROM [sys_tables] WHERE [CatalogName] = '${catalogName}' AND [SchemaName] = '${item.name}'`,
+            "schema",
+            { ttl: SCHEMA_QUERY_TTL }
           );
 
           if (result.results?.[0]) {
@@ -246,7 +241,9 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
           const catalogName = path[0];
           const schemaName = path[1];
           const result = await queryData(
-            `SELECT [ColumnName], [DataTypeName] FROM [sys_tablecolumns] WHERE [CatalogName] = '${catalogName}' AND [SchemaName] = '${schemaName}' AND [TableName] = '${item.name}'`
+            `SELECT [ColumnName], [DataTypeName] FROM [sys_tablecolumns] WHERE [CatalogName] = '${catalogName}' AND [SchemaName] = '${schemaName}' AND [TableName] = '${item.name}'`,
+            "schema",
+            { ttl: SCHEMA_QUERY_TTL }
           );
 
           if (result.results?.[0]) {
@@ -329,16 +326,23 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
 
   // Load schema only after user is authenticated (to respect user-based permissions)
   useEffect(() => {
-    if (isAuthenticated && token && isConfigured && !isAuthLoading && !hasFetchedSchema && enabledConnectionNames.size > 0) {
+    if (isAuthenticated && permissions && token && isConfigured && !isAuthLoading && !hasFetchedSchema && enabledConnectionNames.size > 0) {
       setHasFetchedSchema(true);
       loadSchemaTree();
     }
-  }, [isAuthenticated, token, isConfigured, isAuthLoading, hasFetchedSchema, loadSchemaTree, enabledConnectionNames.size]);
+  }, [isAuthenticated, permissions, token, isConfigured, isAuthLoading, hasFetchedSchema, loadSchemaTree, enabledConnectionNames.size]);
 
-  // Reload schema when data sources change (after initial load)
+  // The Refresh Schema button skips cached metadata
+  const refreshSchema = useCallback(async () => {
+    await invalidateQueryCache("schema");
+    await loadSchemaTree();
+  }, [invalidateQueryCache, loadSchemaTree]);
+
+  // Reload schema when data sources change (after initial load); the connections
+  // behind the cached metadata may have changed too
   useEffect(() => {
     if (hasFetchedSchema && token && isConfigured) {
-      loadSchemaTree();
+      refreshSchema();
     }
   }, [dataSources]); // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -355,7 +359,7 @@ export function SchemaProvider({ children }: { children: ReactNode }) {
       value={{
         schemaTree,
         isLoadingSchema,
-        refreshSchema: loadSchemaTree,
+        refreshSchema,
         loadChildren,
         toggleItem,
         setSchemaTree,
@@ -0,0 +1,94 @@
+import { createContext, useContext, useState, useCallback, useRef, ReactNode } from "react";
+import { AlertTriangle } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { WriteOperation } from "@/lib/writeProtection";
+
+interface WriteApprovalContextValue {
+  // Shows the statement and resolves true once the user approves it
+  confirmWrite: (operation: WriteOperation) => Promise<boolean>;
+}
+
+interface PendingApproval {
+  operation: WriteOperation;
+  resolve: (approved: boolean) => void;
+}
+
+const WriteApprovalContext = createContext<WriteApprovalContextValue | null>(null);
+
+export function WriteApprovalProvider({ children }: { children: ReactNode }) {
+  // Requests wait in line; the Advisor can ask for several writes in one turn
+  const [queue, setQueue] = useState<PendingApproval[]>([]);
+  const queueRef = useRef(queue);
+  queueRef.current = queue;
+
+  const confirmWrite = useCallback((operation: WriteOperation) => {
+    return new Promise<boolean>((resolve) => {
+      setQueue((prev) => [...prev, { operation, resolve }]);
+    });
+  }, []);
+
+  // Also runs from onOpenChange after the buttons close the dialog; the ref still holds
+  // the settled request then, so the second call changes nothing
+  const settle = (approved: boolean) => {
+    const [current, ...rest] = queueRef.current;
+    if (!current) return;
+    current.resolve(approved);
+    setQueue(rest);
+  };
+
+  const current = queue[0];
+  const isSql = current?.operation.source === "sql";
+
+  return (
+    <WriteApprovalContext.Provider value={{ confirmWrite }}>
+      {children}
+      <AlertDialog open={!!current} onOpenChange={(open) => !open && settle(false)}>
+        <AlertDialogContent className="max-w-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-warning" />
+              Confirm {current?.operation.actions.join(", ")}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {isSql
+                ? "This statement changes data in the connected source. Review it before it runs."
+                : `The tool "${current?.operation.source}" may change data in the connected source. Review its arguments before it runs.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <pre className="max-h-[300px] overflow-auto rounded-md border border-border bg-muted/30 p-3 text-xs">
+            <code className="whitespace-pre-wrap break-all">{current?.operation.statement}</code>
+          </pre>
+          {queue.length > 1 && (
+            <p className="text-xs text-muted-foreground">{queue.length - 1} more waiting for approval</p>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => settle(false)}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => settle(true)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Run
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </WriteApprovalContext.Provider>
+  );
+}
+
+export function useWriteApproval() {
+  const context = useContext(WriteApprovalContext);
+  if (!context) {
+    throw new Error("useWriteApproval must be used within a WriteApprovalProvider");
+  }
+  return context;
+}
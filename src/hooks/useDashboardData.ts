@@ -118,7 +118,8 @@ export function useCustomerHealthData(options: UseCustomerHealthDataOptions = {}
         `SELECT [Id], [Name], [Industry], [AnnualRevenue], [Rating], [CustomerPriority__c], [Active__c]
          FROM [Salesforce1].[Salesforce].[Account]
          WHERE [Active__c] = 'Yes'
-         LIMIT ${PAGE_SIZE} OFFSET ${offset}`
+         LIMIT ${PAGE_SIZE} OFFSET ${offset}`,
+        "dashboard"
       );
 
       // Build map of account IDs for cross-system lookups
@@ -132,7 +133,8 @@ export function useCustomerHealthData(options: UseCustomerHealthDataOptions = {}
             `SELECT [AccountId], [Priority], COUNT(*) as TicketCount
              FROM [Zendesk1].[Zendesk].[Tickets]
              WHERE [Status] NOT IN ('solved', 'closed')
-             GROUP BY [AccountId], [Priority]`
+             GROUP BY [AccountId], [Priority]`,
+            "dashboard"
           );
 
           for (const row of ticketRows) {
@@ -157,7 +159,8 @@ export function useCustomerHealthData(options: UseCustomerHealthDataOptions = {}
           const usageRows = await queryDataAsObjects<{ ACCOUNT_ID: string; TotalJobs: number; LastActivity: string }>(
             `SELECT [ACCOUNT_ID], SUM([S_STANDARDJOBRUNS]) as TotalJobs, MAX([LASTTELEMETRYEVENT]) as LastActivity
              FROM [Snowflake1].[TELEMETRY].[SYNC_USAGE]
-             GROUP BY [ACCOUNT_ID]`
+             GROUP BY [ACCOUNT_ID]`,
+            "dashboard"
           );
 
           for (const row of usageRows) {
@@ -273,7 +276,8 @@ export function useContractsData() {
          LEFT JOIN [Salesforce1].[Salesforce].[Account] a ON o.[AccountId] = a.[Id]
          WHERE o.[IsClosed] = 0
          ORDER BY o.[CloseDate] ASC
-         LIMIT ${PAGE_SIZE} OFFSET ${offset}`
+         LIMIT ${PAGE_SIZE} OFFSET ${offset}`,
+        "dashboard"
       );
 
       const newData = rows.map((row) => ({
@@ -346,7 +350,8 @@ export function useTicketsByPriority() {
       const rows = await queryDataAsObjects<ZendeskTicketCount>(
         `SELECT [Priority], COUNT(*) as count
          FROM [Zendesk1].[Zendesk].[Tickets]
-         GROUP BY [Priority]`
+         GROUP BY [Priority]`,
+        "dashboard"
       );
 
       setData(
@@ -428,7 +433,8 @@ export function useJobsByHealth() {
          FROM [Snowflake1].[TELEMETRY].[SYNC_USAGE]
          WHERE [LASTTELEMETRYEVENT] IS NOT NULL
          ORDER BY [LASTTELEMETRYEVENT] DESC
-         LIMIT 5000`
+         LIMIT 5000`,
+        "dashboard"
       );
 
       // Aggregate by date and health category
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+
+export type PanelSpan = 1 | 2 | 3;
+
+export interface LayoutItem {
+  id: string;
+  span: PanelSpan;
+  hidden: boolean;
+}
+
+const STORAGE_KEY_PREFIX = "sightline-dashboard-layout";
+
+// Panels not in the saved or default layout (e.g. newly pinned widgets) get this width
+const DEFAULT_SPAN: PanelSpan = 1;
+
+function storageKey(userEmail: string | undefined): string {
+  return `${STORAGE_KEY_PREFIX}:${userEmail ?? "anonymous"}`;
+}
+
+function loadLayout(key: string): LayoutItem[] | null {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+// Keep saved order and sizes for known panels, then append any panels the layout doesn't mention
+function mergeLayout(layout: LayoutItem[], panelIds: string[], defaultLayout: LayoutItem[]): LayoutItem[] {
+  const known = new Set(panelIds);
+  const merged = layout.filter(item => known.has(item.id));
+  const present = new Set(merged.map(item => item.id));
+
+  for (const id of panelIds) {
+    if (present.has(id)) continue;
+    merged.push(defaultLayout.find(item => item.id === id) ?? { id, span: DEFAULT_SPAN, hidden: false });
+  }
+  return merged;
+}
+
+/**
+ * Per-user dashboard layout (order, column span, visibility), persisted to localStorage.
+ * `panelIds` is the full set of panels currently available to render.
+ */
+export function useDashboardLayout(userEmail: string | undefined, panelIds: string[], defaultLayout: LayoutItem[]) {
+  const key = storageKey(userEmail);
+  const [savedLayout, setSavedLayout] = useState<LayoutItem[] | null>(() => loadLayout(key));
+
+  // Reload when the signed-in user changes
+  useEffect(() => {
+    setSavedLayout(loadLayout(key));
+  }, [key]);
+
+  const layout = useMemo(
+    () => mergeLayout(savedLayout ?? defaultLayout, panelIds, defaultLayout),
+    [savedLayout, panelIds, defaultLayout]
+  );
+
+  const updateLayout = useCallback((update: (items: LayoutItem[]) => LayoutItem[]) => {
+    const next = update(layout);
+    localStorage.setItem(key, JSON.stringify(next));
+    setSavedLayout(next);
+  }, [layout, key]);
+
+  // Move a panel to the position currently held by another panel
+  const movePanel = useCallback((id: string, targetId: string) => {
+    if (id === targetId) return;
+    updateLayout(items => {
+      const from = items.findIndex(item => item.id === id);
+      const to = items.findIndex(item => item.id === targetId);
+      if (from === -1 || to === -1) return items;
+      const next = [...items];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, [updateLayout]);
+
+  const resizePanel = useCallback((id: string, span: PanelSpan) => {
+    updateLayout(items => items.map(item => (item.id === id ? { ...item, span } : item)));
+  }, [updateLayout]);
+
+  const setPanelHidden = useCallback((id: string, hidden: boolean) => {
+    updateLayout(items => items.map(item => (item.id === id ? { ...item, hidden } : item)));
+  }, [updateLayout]);
+
+  const resetLayout = useCallback(() => {
+    localStorage.removeItem(key);
+    setSavedLayout(null);
+  }, [key]);
+
+  return {
+    layout,
+    isCustomized: savedLayout !== null,
+    movePanel,
+    resizePanel,
+    setPanelHidden,
+    resetLayout,
+  };
+}
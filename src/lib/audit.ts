@@ -0,0 +1,114 @@
+// Audit log: every query and tool call made through CDataContext is reported to
+// /api/audit, which stamps it with the signed-in user. Admins read and export it
+// under Settings > Audit Log.
+
+import type { CacheStatus } from "./cdata";
+
+// Must match server/audit.ts
+export type AuditOrigin = "dashboard" | "explorer" | "advisor" | "schema" | "connections";
+export type AuditKind = "query" | "tool" | "connection";
+
+export const AUDIT_ORIGINS: AuditOrigin[] = ["dashboard", "explorer", "advisor", "schema", "connections"];
+export const AUDIT_KINDS: AuditKind[] = ["query", "tool", "connection"];
+
+// What the browser reports; the server adds id, user and role
+export interface AuditEntry {
+  timestamp: string;
+  origin: AuditOrigin;
+  kind: AuditKind;
+  sql?: string;
+  executedSql?: string;
+  tool?: string;
+  args?: unknown;
+  durationMs: number;
+  rowCount?: number;
+  // Set for reads; a hit never reached CData
+  cache?: CacheStatus;
+  error?: string;
+}
+
+export interface AuditRecord extends Omit<AuditEntry, "args"> {
+  id: string;
+  user: string;
+  role: string;
+  // JSON of the tool arguments
+  args?: string;
+}
+
+export interface AuditFilter {
+  user?: string;
+  origin?: AuditOrigin;
+  kind?: AuditKind;
+  status?: "ok" | "error";
+  // Text searched in the SQL, tool, arguments and error
+  q?: string;
+  // ISO dates
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+// Longer SQL, arguments and errors are cut to this many characters, as the server
+// does anyway. Must match MAX_TEXT_LENGTH in server/audit.ts.
+const MAX_TEXT_LENGTH = 20_000;
+// Browsers refuse keepalive requests once their bodies in flight pass 64 KB in total
+const MAX_KEEPALIVE_BYTES = 16 * 1024;
+
+function truncate(text: string | undefined): string | undefined {
+  return text !== undefined && text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH)}…` : text;
+}
+
+/**
+ * Reports a call to the audit log. Never throws: a failed report must not fail the
+ * call it describes. Small reports use keepalive so ones made while the page unloads
+ * still arrive; a report the browser won't send that way is sent normally instead.
+ */
+export function recordAudit(entry: AuditEntry): void {
+  const body = JSON.stringify({
+    ...entry,
+    sql: truncate(entry.sql),
+    executedSql: truncate(entry.executedSql),
+    args: entry.args === undefined ? undefined : truncate(JSON.stringify(entry.args)),
+    error: truncate(entry.error),
+  });
+  const send = (keepalive: boolean) =>
+    fetch("/api/audit", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive,
+    });
+
+  const keepalive = new TextEncoder().encode(body).length <= MAX_KEEPALIVE_BYTES;
+  send(keepalive)
+    .catch((err) => (keepalive ? send(false) : Promise.reject(err)))
+    .then((response) => {
+      if (!response.ok) console.warn(`Audit log rejected a record (${response.status})`);
+    })
+    .catch((err) => console.warn("Failed to write audit log:", err));
+}
+
+function toSearchParams(filter: AuditFilter): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filter)) {
+    if (value !== undefined && value !== "") params.set(key, String(value));
+  }
+  return params;
+}
+
+// Newest first; total counts every match, records stop at the limit
+export async function fetchAuditLog(filter: AuditFilter): Promise<{ records: AuditRecord[]; total: number }> {
+  const response = await fetch(`/api/audit?${toSearchParams(filter)}`);
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to load the audit log");
+  }
+  return response.json();
+}
+
+// Download link for every record matching the filter (the limit is ignored)
+export function getAuditExportURL(filter: AuditFilter, format: "csv" | "json"): string {
+  const params = toSearchParams({ ...filter, limit: undefined });
+  params.set("format", format);
+  return `/api/audit/export?${params}`;
+}
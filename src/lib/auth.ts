@@ -0,0 +1,45 @@
+// Client for the server's /api/auth routes. The session itself is an httpOnly
+// cookie, so nothing here (or anywhere in the bundle) can read it.
+
+import type { User } from "@/contexts/AuthContext";
+
+export const OIDC_LOGIN_URL = "/api/auth/oidc/login";
+
+export interface SessionInfo {
+  user: User | null;
+  // Present when single sign-on is configured on the server
+  oidc: { label: string } | null;
+}
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.error || fallback;
+}
+
+export async function fetchSession(): Promise<SessionInfo> {
+  const response = await fetch("/api/auth/session");
+  if (!response.ok) {
+    throw new Error(await readError(response, "Failed to load session"));
+  }
+  return response.json();
+}
+
+export async function loginWithPassword(email: string, password: string): Promise<User> {
+  const response = await fetch("/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ email, password }),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response, "Login failed"));
+  }
+  const data = await response.json();
+  return data.user;
+}
+
+export async function logoutSession(): Promise<void> {
+  const response = await fetch("/api/auth/logout", { method: "POST" });
+  if (!response.ok) {
+    throw new Error(await readError(response, "Logout failed"));
+  }
+}
@@ -1,197 +1,635 @@
 // CData Embedded Cloud auth and MCP utilities
 
+import { getWriteActions } from "./writeProtection";
+import { readSSEEvents } from "./sse";
+
 const MCP_BASE_URL = "https://mcp.cloud.cdata.com/mcp";
 
-// Use proxy in development to avoid CORS, direct URL in production
-// Check for dev server by port or DEV flag (custom hostnames may not set DEV correctly)
-function isDevServer(): boolean {
-  return import.meta.env.DEV || window.location.port === "8080";
+// REST calls go through the app server's /cdata-api reverse proxy to avoid CORS
+// (mounted by both the Vite dev server and the production server in server/)
+const API_BASE_URL = "/cdata-api";
+
+// The private key stays on the server; ask it whether CData is configured
+export async function hasCredentials(): Promise<boolean> {
+  try {
+    const response = await fetch("/api/jwt/status");
+    if (!response.ok) return false;
+    const data = await response.json();
+    return !!data.configured;
+  } catch {
+    return false;
+  }
 }
 
-const API_BASE_URL = isDevServer() ? "/cdata-api" : "https://cloud.cdata.com/api";
+// Tokens are always issued by the server (/api/jwt) for the signed-in session's user
+export async function generateJWT(): Promise<string> {
+  const response = await fetch("/api/jwt");
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || "Failed to generate JWT from server");
+  }
+  const data = await response.json();
+  return data.token;
+}
 
-interface JWTPayload {
-  tokenType: string;
-  iat: number;
-  exp: number;
-  iss: string;
-  sub: string;
+// Claims of a CData token; sub is the subscriber the token was issued for
+export interface JWTClaims {
+  sub?: string;
+  exp?: number;
+  iat?: number;
 }
 
-function getCredentials() {
-  return {
-    accountId: import.meta.env.VITE_CDATA_ACCOUNT_ID || "",
-    subscriberId: import.meta.env.VITE_CDATA_SUBSCRIBER_ID || "",
-    privateKey: import.meta.env.VITE_CDATA_PRIVATE_KEY || "",
-  };
+// Reads a token's claims without verifying it (the server signed it)
+export function decodeJWTClaims(token: string): JWTClaims {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload.padEnd(Math.ceil(payload.length / 4) * 4, "=")));
+  } catch {
+    return {};
+  }
 }
 
-export function hasCredentials(): boolean {
-  const { accountId, subscriberId, privateKey } = getCredentials();
-  return !!(accountId && subscriberId && privateKey);
+export function getMCPBaseURL(): string {
+  return MCP_BASE_URL;
 }
 
-// Check if crypto.subtle is available (requires secure context)
-function isSecureContext(): boolean {
-  return typeof crypto !== "undefined" && typeof crypto.subtle !== "undefined";
+export function getAPIBaseURL(): string {
+  return API_BASE_URL;
 }
 
-export async function generateJWT(): Promise<string> {
-  // In non-secure contexts (HTTP on custom domains), use server-side JWT generation
-  if (!isSecureContext()) {
-    const response = await fetch("/api/jwt");
-    if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to generate JWT from server");
-    }
-    const data = await response.json();
-    return data.token;
+// ============================================================================
+// Errors: failed calls throw one of these, so callers decide what to do by type
+// rather than by message text
+// ============================================================================
+
+export class CDataError extends Error {
+  // HTTP status, when CData responded
+  readonly status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = "CDataError";
+    this.status = status;
+  }
+}
+
+// The token was missing, expired or rejected (HTTP 401); a new token may succeed
+export class AuthError extends CDataError {
+  constructor(message: string) {
+    super(message, 401);
+    this.name = "AuthError";
   }
+}
 
-  // In secure contexts (HTTPS or localhost), generate JWT client-side
-  const { accountId, subscriberId, privateKey } = getCredentials();
+// Too many requests (HTTP 429)
+export class RateLimitError extends CDataError {
+  // From the Retry-After header
+  readonly retryAfterMs?: number;
 
-  if (!accountId || !subscriberId || !privateKey) {
-    throw new Error("Missing CData credentials in environment variables");
+  constructor(message: string, retryAfterMs?: number) {
+    super(message, 429);
+    this.name = "RateLimitError";
+    this.retryAfterMs = retryAfterMs;
   }
+}
 
-  const now = Math.floor(Date.now() / 1000);
-  const exp = now + 7200; // 2 hours
+// CData rejected the request: invalid SQL, an unknown table or connection, a failed
+// JSON-RPC call, ... Retrying the same request won't help.
+export class QueryError extends CDataError {
+  // CData's error code, when it sent one
+  readonly code?: string;
 
-  const payload: JWTPayload = {
-    tokenType: "powered-by",
-    iat: now,
-    exp,
-    iss: accountId,
-    sub: subscriberId,
-  };
+  constructor(message: string, status?: number, code?: string) {
+    super(message, status);
+    this.name = "QueryError";
+    this.code = code;
+  }
+}
+
+// No response at all: offline, DNS failure, connection reset
+export class NetworkError extends CDataError {
+  constructor(message: string) {
+    super(message);
+    this.name = "NetworkError";
+  }
+}
 
-  // Import the jose library for JWT signing
-  const { SignJWT, importPKCS8 } = await import("jose");
+// CData error bodies are JSON like {"error": {"code": "...", "message": "..."}},
+// sometimes flattened; anything else is used as plain text
+function parseErrorBody(text: string): { code?: string; message?: string } {
+  try {
+    const data = JSON.parse(text);
+    const error = typeof data?.error === "object" && data.error !== null ? data.error : data;
+    const code = error?.code ?? error?.errorCode;
+    const message = error?.message ?? (typeof data?.error === "string" ? data.error : undefined);
+    return {
+      code: code === undefined || code === null ? undefined : String(code),
+      message: typeof message === "string" ? message : undefined,
+    };
+  } catch {
+    return {};
+  }
+}
 
-  const key = await importPKCS8(privateKey, "RS256");
+// Retry-After is either seconds or an HTTP date
+function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
-  const token = await new SignJWT(payload as unknown as Record<string, unknown>)
-    .setProtectedHeader({ alg: "RS256" })
-    .sign(key);
+async function responseError(response: Response, action: string): Promise<CDataError> {
+  const text = await response.text().catch(() => "");
+  const detail = parseErrorBody(text);
+  const message = `${action}: ${response.status} - ${detail.message ?? text}`;
 
-  return token;
+  if (response.status === 401) return new AuthError(message);
+  if (response.status === 429) return new RateLimitError(message, parseRetryAfter(response.headers.get("Retry-After")));
+  if (response.status >= 400 && response.status < 500) return new QueryError(message, response.status, detail.code);
+  return new CDataError(message, response.status);
 }
 
-export function getMCPBaseURL(): string {
-  return MCP_BASE_URL;
+// fetch that throws the errors above for failed requests. Aborts pass through as-is.
+async function cdataFetch(url: string, init: RequestInit, action: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "AbortError") throw err;
+    throw new NetworkError(`${action}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  if (!response.ok) {
+    throw await responseError(response, action);
+  }
+  return response;
 }
 
-export function getAPIBaseURL(): string {
-  return API_BASE_URL;
+// ============================================================================
+// Request scheduling: concurrent calls to each endpoint are capped, and identical
+// queries already in flight are shared instead of sent again
+// ============================================================================
+
+type Endpoint = "query" | "mcp" | "connection";
+
+const MAX_CONCURRENT_REQUESTS: Record<Endpoint, number> = {
+  query: 4,
+  mcp: 4,
+  connection: 2,
+};
+
+interface QueuedRequest {
+  start: () => void;
+  signal?: AbortSignal;
+  onAbort: () => void;
 }
 
-// MCP JSON-RPC types
-interface MCPRequest {
-  jsonrpc: "2.0";
-  id: number;
-  method: string;
-  params?: Record<string, unknown>;
+const activeRequests: Record<Endpoint, number> = { query: 0, mcp: 0, connection: 0 };
+const requestQueues: Record<Endpoint, QueuedRequest[]> = { query: [], mcp: [], connection: [] };
+
+function abortReason(signal: AbortSignal): unknown {
+  return signal.reason ?? new DOMException("The operation was aborted.", "AbortError");
+}
+
+function startNextRequest(endpoint: Endpoint) {
+  const next = requestQueues[endpoint].shift();
+  if (!next) return;
+  next.signal?.removeEventListener("abort", next.onAbort);
+  next.start();
+}
+
+// Runs the request once the endpoint has a free slot. Requests aborted while
+// waiting leave the queue without being sent.
+function schedule<T>(endpoint: Endpoint, request: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+
+    const start = () => {
+      activeRequests[endpoint]++;
+      request()
+        .then(resolve, reject)
+        .finally(() => {
+          activeRequests[endpoint]--;
+          startNextRequest(endpoint);
+        });
+    };
+
+    if (activeRequests[endpoint] < MAX_CONCURRENT_REQUESTS[endpoint]) {
+      start();
+      return;
+    }
+
+    const queued: QueuedRequest = {
+      start,
+      signal,
+      onAbort: () => {
+        requestQueues[endpoint] = requestQueues[endpoint].filter((item) => item !== queued);
+        reject(abortReason(signal!));
+      },
+    };
+    signal?.addEventListener("abort", queued.onAbort, { once: true });
+    requestQueues[endpoint].push(queued);
+  });
 }
 
-interface MCPResponse {
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+
+// Rate-limited requests never ran, so they can always be sent again. Server errors
+// and network failures are retried only when repeating the request is harmless.
+function isRetryable(err: unknown, idempotent: boolean): boolean {
+  if (err instanceof RateLimitError) return true;
+  if (!idempotent) return false;
+  return err instanceof NetworkError || (err instanceof CDataError && !!err.status && err.status >= 500);
+}
+
+// Exponential backoff with full jitter, so clients that failed together don't retry
+// together; never sooner than the server's Retry-After
+function retryDelay(attempt: number, err: unknown): number {
+  const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  const retryAfter = err instanceof RateLimitError ? err.retryAfterMs ?? 0 : 0;
+  return Math.max(Math.random() * backoff, retryAfter);
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortReason(signal));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason(signal!));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// Schedules the request and retries it after retryable failures. Each attempt waits
+// for a slot again, so backing off doesn't hold one.
+async function send<T>(
+  endpoint: Endpoint,
+  request: () => Promise<T>,
+  options: { idempotent: boolean; signal?: AbortSignal }
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await schedule(endpoint, request, options.signal);
+    } catch (err) {
+      if (attempt >= MAX_RETRIES || !isRetryable(err, options.idempotent)) throw err;
+      await wait(retryDelay(attempt, err), options.signal);
+    }
+  }
+}
+
+// Identical reads in flight for the same token, sharing one response. Writes are
+// never shared: each call must run. Callers must not mutate the response.
+const inFlightQueries = new Map<string, Promise<APIQueryResponse>>();
+
+// ============================================================================
+// MCP client (Streamable HTTP transport)
+// Each server gets a session per credential: an initialize handshake negotiates
+// the protocol version and capabilities, and the server's Mcp-Session-Id is sent
+// on every later request. Responses may stream as SSE, carrying progress
+// notifications before the result.
+// ============================================================================
+
+const MCP_PROTOCOL_VERSION = "2025-06-18";
+const MCP_CLIENT_INFO = { name: "sightline", version: "1.0.0" };
+
+// An MCP server and the Authorization header it expects (CData's is the JWT)
+export interface MCPEndpoint {
+  url: string;
+  authorization?: string;
+}
+
+// JSON-RPC request, notification or response
+interface MCPMessage {
   jsonrpc: "2.0";
-  id: number;
+  id?: number | string;
+  method?: string;
+  params?: Record<string, unknown>;
   result?: unknown;
   error?: { code: number; message: string };
 }
 
+export interface MCPServerCapabilities {
+  tools?: Record<string, unknown>;
+  resources?: Record<string, unknown>;
+  prompts?: Record<string, unknown>;
+  logging?: Record<string, unknown>;
+}
+
+interface MCPSession {
+  endpoint: MCPEndpoint;
+  // null when the server is stateless or doesn't expose the header to the browser
+  id: string | null;
+  protocolVersion: string;
+  capabilities: MCPServerCapabilities;
+}
+
 export interface MCPTool {
   name: string;
   description?: string;
   inputSchema?: Record<string, unknown>;
+  // Behaviour hints from the server; readOnlyHint marks tools that never modify data
+  annotations?: {
+    readOnlyHint?: boolean;
+    destructiveHint?: boolean;
+  };
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: { name: string; description?: string; required?: boolean }[];
+}
+
+// notifications/progress for a request; total is omitted when unknown
+export interface MCPProgress {
+  progress: number;
+  total?: number;
+  message?: string;
 }
 
 let requestId = 0;
 
-export async function mcpRequest(
-  token: string,
-  method: string,
-  params?: Record<string, unknown>
-): Promise<unknown> {
-  const request: MCPRequest = {
-    jsonrpc: "2.0",
-    id: ++requestId,
-    method,
-    params,
-  };
+// The session for each server URL, shared by concurrent requests while it initializes
+const mcpSessions = new Map<string, { authorization?: string; ready: Promise<MCPSession> }>();
 
-  const response = await fetch(MCP_BASE_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Accept: "application/json, text/event-stream",
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify(request),
-  });
+function getCDataEndpoint(token: string): MCPEndpoint {
+  return { url: MCP_BASE_URL, authorization: `Bearer ${token}` };
+}
 
-  if (!response.ok) {
-    throw new Error(`MCP request failed: ${response.status}`);
+function mcpHeaders(endpoint: MCPEndpoint, session?: MCPSession): Record<string, string> {
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json, text/event-stream",
+  };
+  if (endpoint.authorization) headers.Authorization = endpoint.authorization;
+  if (session) {
+    headers["MCP-Protocol-Version"] = session.protocolVersion;
+    if (session.id) headers["Mcp-Session-Id"] = session.id;
   }
+  return headers;
+}
+
+function unwrapMCPResponse(message: MCPMessage): unknown {
+  if (message.error) {
+    throw new QueryError(message.error.message, undefined, String(message.error.code));
+  }
+  return message.result;
+}
 
-  // Handle SSE response format
+// Reads the response to request `id`. SSE streams are parsed as they arrive, so
+// progress notifications reach onProgress while a long-running call is still going.
+async function readMCPResponse(
+  response: Response,
+  id: number,
+  onProgress?: (progress: MCPProgress) => void,
+  session?: MCPSession
+): Promise<unknown> {
   const contentType = response.headers.get("content-type") || "";
+  if (!contentType.includes("text/event-stream")) {
+    const message: MCPMessage = await response.json();
+    return unwrapMCPResponse(message);
+  }
+  if (!response.body) {
+    throw new NetworkError("MCP request failed: empty response stream");
+  }
 
-  if (contentType.includes("text/event-stream")) {
-    const text = await response.text();
-    const lines = text.split("\n");
-
-    let data: MCPResponse | null = null;
-
-    for (const line of lines) {
-      if (line.startsWith("data: ")) {
-        const jsonStr = line.slice(6); // Remove "data: " prefix
-        if (jsonStr.trim()) {
-          try {
-            data = JSON.parse(jsonStr);
-          } catch {
-            // Continue to next line if parse fails
-          }
-        }
+  try {
+    for await (const message of readSSEEvents<MCPMessage>(response.body)) {
+      if (message.id === id && !message.method) {
+        return unwrapMCPResponse(message);
+      }
+      if (message.method === "notifications/progress" && message.params?.progressToken === id) {
+        const { progress, total, message: text } = message.params as Partial<MCPProgress>;
+        if (typeof progress === "number") onProgress?.({ progress, total, message: text });
+      } else if (message.method === "ping" && message.id !== undefined && session) {
+        // The server checks the client is still there; other server requests
+        // (sampling, elicitation) aren't among the capabilities we advertise
+        postMCPMessage(session, { jsonrpc: "2.0", id: message.id, result: {} }).catch(() => {});
       }
     }
+  } finally {
+    response.body.cancel().catch(() => {});
+  }
+  throw new NetworkError("MCP request failed: the stream ended without a response");
+}
 
-    if (!data) {
-      throw new Error("No valid JSON data in SSE response");
-    }
+// Sends a notification or response; the server acknowledges with 202 and no body
+async function postMCPMessage(session: MCPSession, message: MCPMessage): Promise<void> {
+  await cdataFetch(
+    session.endpoint.url,
+    { method: "POST", headers: mcpHeaders(session.endpoint, session), body: JSON.stringify(message) },
+    "MCP request failed"
+  );
+}
 
-    if (data.error) {
-      throw new Error(data.error.message);
-    }
+async function initializeMCPSession(endpoint: MCPEndpoint): Promise<MCPSession> {
+  const id = ++requestId;
+  const response = await cdataFetch(
+    endpoint.url,
+    {
+      method: "POST",
+      headers: mcpHeaders(endpoint),
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id,
+        method: "initialize",
+        params: { protocolVersion: MCP_PROTOCOL_VERSION, capabilities: {}, clientInfo: MCP_CLIENT_INFO },
+      } satisfies MCPMessage),
+    },
+    "MCP initialize failed"
+  );
+  const sessionId = response.headers.get("Mcp-Session-Id");
+  const result = (await readMCPResponse(response, id)) as {
+    protocolVersion?: string;
+    capabilities?: MCPServerCapabilities;
+  };
 
-    return data.result;
+  const session: MCPSession = {
+    endpoint,
+    id: sessionId,
+    // The server answers with our version or the one it supports instead
+    protocolVersion: result.protocolVersion || MCP_PROTOCOL_VERSION,
+    capabilities: result.capabilities ?? {},
+  };
+  await postMCPMessage(session, { jsonrpc: "2.0", method: "notifications/initialized" });
+  return session;
+}
+
+// Starts a new session when the credential changes (a refreshed token or another
+// user), ending the old one
+function getMCPSession(endpoint: MCPEndpoint): Promise<MCPSession> {
+  let current = mcpSessions.get(endpoint.url);
+  if (!current || current.authorization !== endpoint.authorization) {
+    endMCPSession(endpoint.url);
+    const ready = send("mcp", () => initializeMCPSession(endpoint), { idempotent: true });
+    current = { authorization: endpoint.authorization, ready };
+    mcpSessions.set(endpoint.url, current);
+    // A failed handshake is tried again by the next request
+    ready.catch(() => {
+      if (mcpSessions.get(endpoint.url)?.ready === ready) mcpSessions.delete(endpoint.url);
+    });
   }
+  return current.ready;
+}
+
+// Tells the server the session is over (best effort; servers may refuse with 405).
+// Ends the CData session unless another server's URL is given.
+export function endMCPSession(url: string = MCP_BASE_URL): void {
+  const ended = mcpSessions.get(url);
+  mcpSessions.delete(url);
+  ended?.ready
+    .then((session) => {
+      if (!session.id) return;
+      return fetch(url, { method: "DELETE", headers: mcpHeaders(session.endpoint, session) });
+    })
+    .catch(() => {});
+}
 
-  // Fallback to regular JSON response
-  const data: MCPResponse = await response.json();
+async function sendMCPRequest(
+  session: MCPSession,
+  method: string,
+  params?: Record<string, unknown>,
+  signal?: AbortSignal,
+  onProgress?: (progress: MCPProgress) => void
+): Promise<unknown> {
+  const id = ++requestId;
+  const message: MCPMessage = {
+    jsonrpc: "2.0",
+    id,
+    method,
+    // The progress token asks the server to report progress for this request
+    params: onProgress ? { ...params, _meta: { progressToken: id } } : params,
+  };
 
-  if (data.error) {
-    throw new Error(data.error.message);
+  const response = await cdataFetch(
+    session.endpoint.url,
+    {
+      method: "POST",
+      headers: mcpHeaders(session.endpoint, session),
+      body: JSON.stringify(message),
+      signal,
+    },
+    "MCP request failed"
+  );
+  return readMCPResponse(response, id, onProgress, session);
+}
+
+// Tool calls may change data, so only rate-limited ones are retried. A 404 means the
+// server dropped the session without running the request: it is sent once more in a
+// new session.
+async function endpointRequest(
+  endpoint: MCPEndpoint,
+  method: string,
+  params?: Record<string, unknown>,
+  signal?: AbortSignal,
+  onProgress?: (progress: MCPProgress) => void
+): Promise<unknown> {
+  const options = { idempotent: method !== "tools/call", signal };
+  const session = await getMCPSession(endpoint);
+  try {
+    return await send("mcp", () => sendMCPRequest(session, method, params, signal, onProgress), options);
+  } catch (err) {
+    if (!session.id || !(err instanceof QueryError) || err.status !== 404) throw err;
+    if (mcpSessions.get(endpoint.url)?.authorization === endpoint.authorization) {
+      mcpSessions.delete(endpoint.url);
+    }
+    const renewed = await getMCPSession(endpoint);
+    return send("mcp", () => sendMCPRequest(renewed, method, params, signal, onProgress), options);
   }
+}
+
+export function mcpRequest(
+  token: string,
+  method: string,
+  params?: Record<string, unknown>,
+  signal?: AbortSignal,
+  onProgress?: (progress: MCPProgress) => void
+): Promise<unknown> {
+  return endpointRequest(getCDataEndpoint(token), method, params, signal, onProgress);
+}
 
-  return data.result;
+// Lists every page of a paginated list method
+async function listAll<T>(endpoint: MCPEndpoint, method: string, key: string): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | undefined;
+  do {
+    const result = (await endpointRequest(endpoint, method, cursor ? { cursor } : undefined)) as Record<string, unknown>;
+    items.push(...((result[key] as T[] | undefined) ?? []));
+    cursor = typeof result.nextCursor === "string" ? result.nextCursor : undefined;
+  } while (cursor);
+  return items;
 }
 
 export async function listMCPTools(token: string): Promise<MCPTool[]> {
-  const result = await mcpRequest(token, "tools/list");
-  return (result as { tools: MCPTool[] }).tools;
+  return listAll<MCPTool>(getCDataEndpoint(token), "tools/list", "tools");
+}
+
+// Empty when the server doesn't offer resources
+export async function listMCPResources(token: string): Promise<MCPResource[]> {
+  const endpoint = getCDataEndpoint(token);
+  const session = await getMCPSession(endpoint);
+  if (!session.capabilities.resources) return [];
+  return listAll<MCPResource>(endpoint, "resources/list", "resources");
+}
+
+// Empty when the server doesn't offer prompts
+export async function listMCPPrompts(token: string): Promise<MCPPrompt[]> {
+  const endpoint = getCDataEndpoint(token);
+  const session = await getMCPSession(endpoint);
+  if (!session.capabilities.prompts) return [];
+  return listAll<MCPPrompt>(endpoint, "prompts/list", "prompts");
 }
 
 export async function callMCPTool(
   token: string,
   name: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+  onProgress?: (progress: MCPProgress) => void
 ): Promise<unknown> {
-  const result = await mcpRequest(token, "tools/call", { name, arguments: args });
+  const result = await mcpRequest(token, "tools/call", { name, arguments: args }, signal, onProgress);
   return result;
 }
 
+// Other MCP servers registered in Settings (see lib/mcpServers.ts)
+export async function listServerTools(endpoint: MCPEndpoint): Promise<MCPTool[]> {
+  return listAll<MCPTool>(endpoint, "tools/list", "tools");
+}
+
+export function callServerTool(
+  endpoint: MCPEndpoint,
+  name: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal,
+  onProgress?: (progress: MCPProgress) => void
+): Promise<unknown> {
+  return endpointRequest(endpoint, "tools/call", { name, arguments: args }, signal, onProgress);
+}
+
 // REST API types
 export interface QueryResultSchema {
   columnName: string;
@@ -203,30 +641,54 @@ export interface QueryResult {
   rows: unknown[][];
 }
 
+// hit: fresh cached result; stale: cached result being refreshed in the background;
+// miss: fetched from CData
+export type CacheStatus = "hit" | "stale" | "miss";
+
 export interface APIQueryResponse {
   results: QueryResult[];
+  // The SQL actually run when it differs from the requested query (set by CDataContext)
+  executedSql?: string;
+  // Row filters injected for the user's role, as "Schema.Table: predicate"
+  rowFilters?: string[];
+  // Whether the response came from the query cache (set by CDataContext)
+  cache?: CacheStatus;
 }
 
-// REST API query function - direct SQL queries without MCP
-export async function queryData(
+// REST API query function - direct SQL queries without MCP.
+// A read identical to one still in flight for the same token shares its response.
+// Failed reads are retried; writes only when rate-limited.
+export function queryData(
   token: string,
   sql: string
 ): Promise<APIQueryResponse> {
-  const response = await fetch(`${API_BASE_URL}/query`, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${token}`,
-    },
-    body: JSON.stringify({ query: sql }),
+  const isRead = getWriteActions(sql).length === 0;
+  const key = `${token}\n${sql}`;
+  const inFlight = isRead ? inFlightQueries.get(key) : undefined;
+  if (inFlight) return inFlight;
+
+  const request = send("query", async () => {
+    const response = await cdataFetch(
+      `${API_BASE_URL}/query`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ query: sql }),
+      },
+      "API query failed"
+    );
+    return response.json() as Promise<APIQueryResponse>;
+  }, { idempotent: isRead });
+  if (!isRead) return request;
+
+  const shared = request.finally(() => {
+    inFlightQueries.delete(key);
   });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`API query failed: ${response.status} - ${errorText}`);
-  }
-
-  return response.json();
+  inFlightQueries.set(key, shared);
+  return shared;
 }
 
 // Helper to convert query result to array of objects
@@ -262,20 +724,23 @@ export interface ConnectionCreateResponse {
   link?: string;
 }
 
+// Connection management calls share the "connection" slots; only GETs are retried
+// after server errors
+function fetchConnectionAPI(path: string, init: RequestInit, action: string): Promise<Response> {
+  return send("connection", () => cdataFetch(`${API_BASE_URL}/poweredby/connection/${path}`, init, action), {
+    idempotent: init.method === "GET",
+  });
+}
+
 // List all connections for the subscriber
 // Endpoint: GET /poweredby/connection/list
 export async function listConnections(token: string): Promise<Connection[]> {
-  const response = await fetch(`${API_BASE_URL}/poweredby/connection/list`, {
+  const response = await fetchConnectionAPI("list", {
     method: "GET",
     headers: {
       Authorization: `Bearer ${token}`,
     },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to list connections: ${response.status} - ${errorText}`);
-  }
+  }, "Failed to list connections");
 
   const data = await response.json();
   console.log("Connection list API response:", JSON.stringify(data, null, 2));
@@ -292,17 +757,12 @@ export async function listConnections(token: string): Promise<Connection[]> {
 // Delete a connection by ID
 // Endpoint: DELETE /poweredby/connection/delete/{id}
 export async function deleteConnection(token: string, connectionId: string): Promise<void> {
-  const response = await fetch(`${API_BASE_URL}/poweredby/connection/delete/${connectionId}`, {
+  await fetchConnectionAPI(`delete/${connectionId}`, {
     method: "DELETE",
     headers: {
       Authorization: `Bearer ${token}`,
     },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to delete connection: ${response.status} - ${errorText}`);
-  }
+  }, "Failed to delete connection");
 }
 
 // Get connection creation URL for a specific driver
@@ -315,7 +775,7 @@ export async function getConnectionCreateURL(
   // Use current page URL as redirect if not specified
   const redirect = redirectUrl || window.location.origin + window.location.pathname;
 
-  const response = await fetch(`${API_BASE_URL}/poweredby/connection/create`, {
+  const response = await fetchConnectionAPI("create", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -326,12 +786,7 @@ export async function getConnectionCreateURL(
       name: connectionName,
       redirectURL: redirect,
     }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get connection URL: ${response.status} - ${errorText}`);
-  }
+  }, "Failed to get connection URL");
 
   const data = await response.json();
   console.log("Connection create API response:", JSON.stringify(data, null, 2));
@@ -352,7 +807,7 @@ export async function getGenericConnectionURL(
   // Use current page URL as redirect if not specified
   const redirect = redirectUrl || window.location.origin + window.location.pathname;
 
-  const response = await fetch(`${API_BASE_URL}/poweredby/connection/create`, {
+  const response = await fetchConnectionAPI("create", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -361,12 +816,7 @@ export async function getGenericConnectionURL(
     body: JSON.stringify({
       redirectURL: redirect,
     }),
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Failed to get connection URL: ${response.status} - ${errorText}`);
-  }
+  }, "Failed to get connection URL");
 
   const data = await response.json();
   console.log("Generic connection create API response:", JSON.stringify(data, null, 2));
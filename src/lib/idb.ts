@@ -0,0 +1,59 @@
+// Minimal promise wrapper around a single IndexedDB object store
+
+export interface KeyValueStore<T> {
+  getAll: () => Promise<T[]>;
+  put: (value: T) => Promise<void>;
+  delete: (key: IDBValidKey) => Promise<void>;
+  clear: () => Promise<void>;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Open (or create) a database holding one object store keyed by `keyPath`
+export function createObjectStore<T>(dbName: string, storeName: string, keyPath = "id"): KeyValueStore<T> {
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const openDatabase = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(storeName, { keyPath });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          dbPromise = null;
+          reject(request.error);
+        };
+      });
+    }
+    return dbPromise;
+  };
+
+  const withStore = async <R>(
+    mode: IDBTransactionMode,
+    fn: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const db = await openDatabase();
+    const store = db.transaction(storeName, mode).objectStore(storeName);
+    return requestToPromise(fn(store));
+  };
+
+  return {
+    getAll: () => withStore("readonly", (store) => store.getAll() as IDBRequest<T[]>),
+    put: async (value) => {
+      await withStore("readwrite", (store) => store.put(value));
+    },
+    delete: async (key) => {
+      await withStore("readwrite", (store) => store.delete(key));
+    },
+    clear: async () => {
+      await withStore("readwrite", (store) => store.clear());
+    },
+  };
+}
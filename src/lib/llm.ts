@@ -1,50 +1,26 @@
-// Anthropic Claude LLM client with tool use
-
-import { MCPTool } from "./cdata";
-
-const ANTHROPIC_API_URL = "https://api.anthropic.com/v1/messages";
-
-interface AnthropicTool {
-  name: string;
-  description: string;
-  input_schema: Record<string, unknown>;
-}
-
-interface AnthropicMessage {
-  role: "user" | "assistant";
-  content: string | AnthropicContentBlock[];
-}
-
-interface AnthropicContentBlock {
-  type: "text" | "tool_use" | "tool_result";
-  text?: string;
-  id?: string;
-  name?: string;
-  input?: Record<string, unknown>;
-  tool_use_id?: string;
-  content?: string;
-}
-
-interface AnthropicResponse {
-  id: string;
-  content: AnthropicContentBlock[];
-  stop_reason: "end_turn" | "tool_use" | "max_tokens";
-  usage: { input_tokens: number; output_tokens: number };
-}
-
-function getConfig() {
-  return {
-    apiKey: import.meta.env.VITE_ANTHROPIC_API_KEY || "",
-    model: import.meta.env.VITE_ANTHROPIC_MODEL || "claude-sonnet-4-20250514",
-  };
-}
+// LLM client with tool use; the agentic loop is provider-neutral (see llmProviders.ts)
+
+import { MCPProgress, MCPTool } from "./cdata";
+import { classifyToolCall } from "./writeProtection";
+import {
+  getProviderConfig,
+  isProviderConfigured,
+  sendProviderMessage,
+  type LLMContentBlock,
+  type LLMMessage,
+  type LLMProviderConfig,
+  type LLMResponse,
+  type LLMTool,
+} from "./llmProviders";
+
+export type { LLMMessage } from "./llmProviders";
 
 export function hasLLMConfig(): boolean {
-  return !!getConfig().apiKey;
+  return isProviderConfigured(getProviderConfig());
 }
 
-// Convert MCP tools to Anthropic tool format
-export function mcpToolsToAnthropic(mcpTools: MCPTool[]): AnthropicTool[] {
+// Convert MCP tools to the neutral tool format; providers map it to their own shape
+export function mcpToolsToLLMTools(mcpTools: MCPTool[]): LLMTool[] {
   return mcpTools.map((tool) => ({
     name: tool.name,
     description: tool.description || `Tool: ${tool.name}`,
@@ -52,22 +28,22 @@ export function mcpToolsToAnthropic(mcpTools: MCPTool[]): AnthropicTool[] {
   }));
 }
 
-// Send a message to Claude and get a response
+// Send a message to the configured provider and stream the response, assembling the full message
 async function sendMessage(
-  messages: AnthropicMessage[],
-  tools: AnthropicTool[],
+  provider: LLMProviderConfig,
+  messages: LLMMessage[],
+  tools: LLMTool[],
   system?: string,
-  logCollector?: LLMLogEntry[]
-): Promise<AnthropicResponse> {
-  const { apiKey, model } = getConfig();
-
-  if (!apiKey) {
-    throw new Error("Anthropic API key not configured");
-  }
-
+  logCollector?: LLMLogEntry[],
+  onTextDelta?: (text: string) => void,
+  signal?: AbortSignal,
+  maxTokens = DEFAULT_CHAT_OPTIONS.maxTokensPerResponse
+): Promise<LLMResponse> {
+  // Logged in the neutral format so logs look the same for every provider
   const requestBody = {
-    model,
-    max_tokens: 4096,
+    provider: provider.id,
+    model: provider.model,
+    max_tokens: maxTokens,
     system,
     tools,
     messages,
@@ -83,23 +59,15 @@ async function sendMessage(
     });
   }
 
-  const response = await fetch(ANTHROPIC_API_URL, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01",
-      "anthropic-dangerous-direct-browser-access": "true",
-    },
-    body: JSON.stringify(requestBody),
+  const responseData = await sendProviderMessage(provider, {
+    system,
+    messages,
+    tools,
+    maxTokens,
+    signal,
+    onTextDelta,
   });
 
-  if (!response.ok) {
-    const error = await response.text();
-    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
-  }
-
-  const responseData = await response.json();
   const responseTimestamp = new Date();
 
   // Log response
@@ -117,12 +85,17 @@ async function sendMessage(
 
 // Interim update types for streaming progress
 export interface InterimUpdate {
-  type: "thinking" | "tool_start" | "tool_complete" | "tool_error";
+  type: "thinking" | "text_delta" | "tool_start" | "tool_progress" | "tool_complete" | "tool_error";
   content?: string;
   toolName?: string;
+  toolUseId?: string;
   toolInput?: Record<string, unknown>;
   toolResult?: unknown;
   error?: string;
+  // Set on tool_start for writes: the call waits until the user approves it
+  requiresApproval?: boolean;
+  // Set on tool_progress: the MCP server's latest progress notification
+  progress?: MCPProgress;
 }
 
 // Log entry for request/response debugging
@@ -133,22 +106,108 @@ export interface LLMLogEntry {
   duration?: number;
 }
 
+// Budget that ended a run early
+export interface ChatLimitHit {
+  limit: "maxToolRounds" | "maxInputTokens" | "maxOutputTokens" | "maxDurationMs";
+  value: number;
+  max: number;
+}
+
 export interface LLMDebugLogs {
   entries: LLMLogEntry[];
   totalDuration: number;
   totalInputTokens: number;
   totalOutputTokens: number;
+  limitReached?: ChatLimitHit;
+}
+
+// Per-run options for the agentic loop
+export interface ChatOptions {
+  // Aborts pending model and tool requests; the partial turn is still returned
+  signal?: AbortSignal;
+  // Rounds of tool execution before the run is stopped
+  maxToolRounds?: number;
+  // Cumulative token budgets across all responses in the run
+  maxInputTokens?: number;
+  maxOutputTokens?: number;
+  // Wall-clock limit for the whole run
+  maxDurationMs?: number;
+  // max_tokens sent with each model request
+  maxTokensPerResponse?: number;
+  // Tool calls from one response that may run at the same time
+  maxToolConcurrency?: number;
+}
+
+const DEFAULT_CHAT_OPTIONS = {
+  maxToolRounds: 10,
+  maxInputTokens: 200_000,
+  maxOutputTokens: 20_000,
+  maxDurationMs: 3 * 60 * 1000,
+  maxTokensPerResponse: 4096,
+  maxToolConcurrency: 4,
+};
+
+// Run async work over items with at most `limit` in flight, keeping input order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workerCount = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
+
+export interface ChatResult {
+  response: string;
+  toolCalls: { name: string; result: unknown }[];
+  debugLogs: LLMDebugLogs;
+  cancelled?: boolean;
+  limitReached?: ChatLimitHit;
+}
+
+// Explain which budget ended the run
+function describeLimit({ limit, value, max }: ChatLimitHit): string {
+  switch (limit) {
+    case "maxToolRounds":
+      return `Stopped after ${value} rounds of tool calls (limit ${max}) without reaching a final answer.`;
+    case "maxInputTokens":
+      return `Stopped after using ${value.toLocaleString()} input tokens (budget ${max.toLocaleString()}).`;
+    case "maxOutputTokens":
+      return `Stopped after generating ${value.toLocaleString()} output tokens (budget ${max.toLocaleString()}).`;
+    case "maxDurationMs":
+      return `Stopped after ${Math.round(value / 1000)}s (time limit ${Math.round(max / 1000)}s).`;
+  }
 }
 
 // Run the agentic loop: send message, execute tools, repeat until done
 export async function chat(
   userMessage: string,
-  conversationHistory: AnthropicMessage[],
+  conversationHistory: LLMMessage[],
   mcpTools: MCPTool[],
-  callTool: (name: string, args: Record<string, unknown>) => Promise<unknown>,
-  onInterimUpdate?: (update: InterimUpdate) => void
-): Promise<{ response: string; toolCalls: { name: string; result: unknown }[]; debugLogs: LLMDebugLogs }> {
-  const tools = mcpToolsToAnthropic(mcpTools);
+  callTool: (
+    name: string,
+    args: Record<string, unknown>,
+    signal?: AbortSignal,
+    onProgress?: (progress: MCPProgress) => void
+  ) => Promise<unknown>,
+  onInterimUpdate?: (update: InterimUpdate) => void,
+  options: ChatOptions = {}
+): Promise<ChatResult> {
+  const { signal, ...limitOverrides } = options;
+  const limits = { ...DEFAULT_CHAT_OPTIONS, ...limitOverrides };
+  const provider = getProviderConfig();
+  const tools = mcpToolsToLLMTools(mcpTools);
   const toolCalls: { name: string; result: unknown }[] = [];
   const logEntries: LLMLogEntry[] = [];
   const startTime = Date.now();
@@ -168,96 +227,215 @@ Use the tools to answer user questions about their data. When you need to query
 Always explain what you're doing and summarize the results in a clear, user-friendly way.`;
 
   // Build messages array
-  const messages: AnthropicMessage[] = [
+  const messages: LLMMessage[] = [
     ...conversationHistory,
     { role: "user", content: userMessage },
   ];
 
-  // Agentic loop
-  let response = await sendMessage(messages, tools, system, logEntries);
+  // Forward streamed text so the UI can render it as it arrives, and keep
+  // the current turn's text in case the run is cancelled mid-stream
+  let turnText = "";
+  const onTextDelta = (text: string) => {
+    turnText += text;
+    onInterimUpdate?.({ type: "text_delta", content: text });
+  };
 
-  while (response.stop_reason === "tool_use") {
-    // Extract any text thinking from the response
-    const textBlocks = response.content.filter((block) => block.type === "text");
-    if (textBlocks.length > 0 && onInterimUpdate) {
-      const thinking = textBlocks.map((block) => block.text || "").join("\n");
-      if (thinking.trim()) {
-        onInterimUpdate({ type: "thinking", content: thinking });
-      }
+  // Internal signal that aborts on user cancellation or when the time limit expires
+  const runController = new AbortController();
+  const runSignal = runController.signal;
+  const abortRun = () => runController.abort();
+  if (signal?.aborted) abortRun();
+  signal?.addEventListener("abort", abortRun);
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    runController.abort();
+  }, limits.maxDurationMs);
+
+  let finalResponse = "";
+  let cancelled = false;
+  let limitReached: ChatLimitHit | undefined;
+  let toolRounds = 0;
+  let inputTokens = 0;
+  let outputTokens = 0;
+
+  const send = async () => {
+    const result = await sendMessage(
+      provider, messages, tools, system, logEntries, onTextDelta, runSignal, limits.maxTokensPerResponse
+    );
+    inputTokens += result.usage?.input_tokens || 0;
+    outputTokens += result.usage?.output_tokens || 0;
+    return result;
+  };
+
+  // Check budgets before starting another round of tool calls
+  const checkLimits = (): ChatLimitHit | undefined => {
+    if (toolRounds >= limits.maxToolRounds) {
+      return { limit: "maxToolRounds", value: toolRounds, max: limits.maxToolRounds };
+    }
+    if (inputTokens >= limits.maxInputTokens) {
+      return { limit: "maxInputTokens", value: inputTokens, max: limits.maxInputTokens };
     }
+    if (outputTokens >= limits.maxOutputTokens) {
+      return { limit: "maxOutputTokens", value: outputTokens, max: limits.maxOutputTokens };
+    }
+    return undefined;
+  };
 
-    // Find tool use blocks
-    const toolUseBlocks = response.content.filter(
-      (block): block is AnthropicContentBlock & { type: "tool_use"; id: string; name: string; input: Record<string, unknown> } =>
-        block.type === "tool_use"
-    );
+  try {
+    // Agentic loop
+    let response = await send();
+
+    while (response.stop_reason === "tool_use") {
+      limitReached = checkLimits();
+      if (limitReached) break;
 
-    // Execute each tool
-    const toolResults: AnthropicContentBlock[] = [];
-    for (const toolUse of toolUseBlocks) {
-      // Notify tool start
-      if (onInterimUpdate) {
-        onInterimUpdate({
-          type: "tool_start",
-          toolName: toolUse.name,
-          toolInput: toolUse.input,
-        });
+      // Extract any text thinking from the response
+      const textBlocks = response.content.filter((block) => block.type === "text");
+      if (textBlocks.length > 0 && onInterimUpdate) {
+        const thinking = textBlocks.map((block) => block.text || "").join("\n");
+        if (thinking.trim()) {
+          onInterimUpdate({ type: "thinking", content: thinking });
+        }
       }
 
-      try {
-        const result = await callTool(toolUse.name, toolUse.input);
-        toolCalls.push({ name: toolUse.name, result });
-        toolResults.push({
-          type: "tool_result",
-          tool_use_id: toolUse.id,
-          content: JSON.stringify(result),
-        });
+      // Find tool use blocks
+      const toolUseBlocks = response.content.filter(
+        (block): block is LLMContentBlock & { type: "tool_use"; id: string; name: string; input: Record<string, unknown> } =>
+          block.type === "tool_use"
+      );
+
+      // Writes run one at a time, in tool_use order, each paused until callTool gets the
+      // user's approval (read-only mode). Reads don't wait for them, and writes don't
+      // wait for reads: a write can run while reads from the same turn are in flight.
+      let writeQueue: Promise<unknown> = Promise.resolve();
 
-        // Notify tool complete
+      // Execute tools concurrently; results stay in tool_use order
+      const outcomes = await mapWithConcurrency(toolUseBlocks, limits.maxToolConcurrency, async (toolUse) => {
+        const tool = mcpTools.find((t) => t.name === toolUse.name);
+        const isWrite = classifyToolCall(tool, toolUse.name, toolUse.input) !== null;
+
+        // Notify tool start
         if (onInterimUpdate) {
           onInterimUpdate({
-            type: "tool_complete",
+            type: "tool_start",
             toolName: toolUse.name,
-            toolResult: result,
+            toolUseId: toolUse.id,
+            toolInput: toolUse.input,
+            requiresApproval: isWrite,
           });
         }
-      } catch (err) {
-        const errorMsg = err instanceof Error ? err.message : "Unknown error";
-        toolResults.push({
-          type: "tool_result",
-          tool_use_id: toolUse.id,
-          content: `Error: ${errorMsg}`,
-        });
-
-        // Notify tool error
-        if (onInterimUpdate) {
-          onInterimUpdate({
-            type: "tool_error",
-            toolName: toolUse.name,
-            error: errorMsg,
-          });
+
+        try {
+          if (toolUse.inputError) throw new Error(toolUse.inputError);
+          const onProgress = (progress: MCPProgress) =>
+            onInterimUpdate?.({ type: "tool_progress", toolName: toolUse.name, toolUseId: toolUse.id, progress });
+          const run = () => callTool(toolUse.name, toolUse.input, runSignal, onProgress);
+          const result = await (isWrite ? (writeQueue = writeQueue.then(run, run)) : run());
+
+          // Notify tool complete
+          if (onInterimUpdate) {
+            onInterimUpdate({
+              type: "tool_complete",
+              toolName: toolUse.name,
+              toolUseId: toolUse.id,
+              toolResult: result,
+            });
+          }
+
+          return {
+            call: { name: toolUse.name, result },
+            block: {
+              type: "tool_result",
+              tool_use_id: toolUse.id,
+              content: JSON.stringify(result),
+            } as LLMContentBlock,
+          };
+        } catch (err) {
+          // Cancellation ends the run rather than becoming a tool error
+          if (runSignal.aborted) throw err;
+
+          const errorMsg = err instanceof Error ? err.message : "Unknown error";
+
+          // Notify tool error
+          if (onInterimUpdate) {
+            onInterimUpdate({
+              type: "tool_error",
+              toolName: toolUse.name,
+              toolUseId: toolUse.id,
+              error: errorMsg,
+            });
+          }
+
+          return {
+            call: null,
+            block: {
+              type: "tool_result",
+              tool_use_id: toolUse.id,
+              content: `Error: ${errorMsg}`,
+            } as LLMContentBlock,
+          };
         }
+      });
+
+      const toolResults = outcomes.map((outcome) => outcome.block);
+      for (const outcome of outcomes) {
+        if (outcome.call) toolCalls.push(outcome.call);
       }
+
+      runSignal.throwIfAborted();
+      toolRounds++;
+
+      // Add assistant response and tool results to messages
+      messages.push({ role: "assistant", content: response.content });
+      messages.push({ role: "user", content: toolResults });
+
+      // Get next response
+      turnText = "";
+      response = await send();
     }
 
-    // Add assistant response and tool results to messages
-    messages.push({ role: "assistant", content: response.content });
-    messages.push({ role: "user", content: toolResults });
+    // Extract final text response
+    const textBlocks = response.content.filter((block) => block.type === "text");
+    finalResponse = textBlocks.map((block) => block.text || "").join("\n");
+  } catch (err) {
+    if (!runSignal.aborted) throw err;
+
+    // Keep whatever the model had streamed for the interrupted turn
+    finalResponse = turnText;
+    if (timedOut && !signal?.aborted) {
+      limitReached = { limit: "maxDurationMs", value: Date.now() - startTime, max: limits.maxDurationMs };
+    } else {
+      cancelled = true;
+    }
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener("abort", abortRun);
+  }
 
-    // Get next response
-    response = await sendMessage(messages, tools, system, logEntries);
+  if (limitReached) {
+    finalResponse = [finalResponse.trim(), `**${describeLimit(limitReached)}**`].filter(Boolean).join("\n\n");
   }
 
-  // Extract final text response
-  const textBlocks = response.content.filter((block) => block.type === "text");
-  const finalResponse = textBlocks.map((block) => block.text || "").join("\n");
+  const debugLogs = buildDebugLogs(logEntries, startTime);
+  debugLogs.limitReached = limitReached;
+
+  return {
+    response: finalResponse,
+    toolCalls,
+    debugLogs,
+    cancelled,
+    limitReached,
+  };
+}
 
-  // Calculate totals from log entries
+// Summarize log entries into debug logs with token totals
+function buildDebugLogs(logEntries: LLMLogEntry[], startTime: number): LLMDebugLogs {
   let totalInputTokens = 0;
   let totalOutputTokens = 0;
   for (const entry of logEntries) {
     if (entry.type === "response") {
-      const responseData = entry.data as AnthropicResponse;
+      const responseData = entry.data as LLMResponse;
       if (responseData.usage) {
         totalInputTokens += responseData.usage.input_tokens;
         totalOutputTokens += responseData.usage.output_tokens;
@@ -265,12 +443,10 @@ Always explain what you're doing and summarize the results in a clear, user-frie
     }
   }
 
-  const debugLogs: LLMDebugLogs = {
+  return {
     entries: logEntries,
     totalDuration: Date.now() - startTime,
     totalInputTokens,
     totalOutputTokens,
   };
-
-  return { response: finalResponse, toolCalls, debugLogs };
 }
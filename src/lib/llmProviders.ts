@@ -0,0 +1,531 @@
+// LLM provider adapters for the Advisor loop
+//
+// The agentic loop in llm.ts works with one provider-neutral message shape
+// (content blocks with text / tool_use / tool_result, as in the Anthropic
+// Messages API). Each provider translates that shape to its wire format and
+// rebuilds a neutral response from its stream.
+
+import { readSSEEvents } from "./sse";
+
+export type LLMProviderId = "anthropic" | "openai" | "local";
+
+export interface LLMTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+export interface LLMContentBlock {
+  type: "text" | "tool_use" | "tool_result";
+  text?: string;
+  id?: string;
+  name?: string;
+  input?: Record<string, unknown>;
+  tool_use_id?: string;
+  content?: string;
+  // Ours, never sent to a provider: why a tool_use block's input couldn't be parsed.
+  // The call is answered with this error instead of running.
+  inputError?: string;
+}
+
+export interface LLMMessage {
+  role: "user" | "assistant";
+  content: string | LLMContentBlock[];
+}
+
+export interface LLMResponse {
+  id: string;
+  content: LLMContentBlock[];
+  stop_reason: "end_turn" | "tool_use" | "max_tokens";
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  tools: LLMTool[];
+  maxTokens: number;
+  signal?: AbortSignal;
+  onTextDelta?: (text: string) => void;
+}
+
+interface ProviderDefinition {
+  label: string;
+  defaultModel: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  // Server route that injects the API key when the browser has none
+  proxyBaseUrl?: string;
+  // Shown when the provider is selected but not configured
+  configHint: string;
+  send: (config: LLMProviderConfig, request: LLMRequest) => Promise<LLMResponse>;
+}
+
+export interface LLMProviderConfig {
+  id: LLMProviderId;
+  label: string;
+  apiKey: string;
+  model: string;
+  baseUrl: string;
+  // Requests go through the server-side proxy, which holds the API key
+  proxied: boolean;
+}
+
+// Overrides chosen in Settings; anything unset falls back to env vars
+export interface LLMSettings {
+  provider?: LLMProviderId;
+  model?: string;
+  baseUrl?: string;
+}
+
+const SETTINGS_STORAGE_KEY = "sightline-llm-settings";
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+export function getLLMSettings(): LLMSettings {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveLLMSettings(settings: LLMSettings) {
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function clearLLMSettings() {
+  localStorage.removeItem(SETTINGS_STORAGE_KEY);
+}
+
+function isProviderId(value: unknown): value is LLMProviderId {
+  return value === "anthropic" || value === "openai" || value === "local";
+}
+
+// Environment defaults for each provider. Each variable is read by its full name:
+// Vite then inlines only those, where taking import.meta.env as a whole would put
+// every VITE_ variable in the bundle.
+function getEnvConfig(id: LLMProviderId): { apiKey: string; model: string; baseUrl?: string } {
+  switch (id) {
+    case "anthropic":
+      return {
+        apiKey: import.meta.env.VITE_ANTHROPIC_API_KEY || "",
+        model: import.meta.env.VITE_ANTHROPIC_MODEL || PROVIDERS.anthropic.defaultModel,
+      };
+    case "openai":
+      return {
+        apiKey: import.meta.env.VITE_OPENAI_API_KEY || "",
+        model: import.meta.env.VITE_OPENAI_MODEL || PROVIDERS.openai.defaultModel,
+        baseUrl: import.meta.env.VITE_OPENAI_BASE_URL,
+      };
+    case "local":
+      return {
+        apiKey: import.meta.env.VITE_LOCAL_LLM_API_KEY || "",
+        model: import.meta.env.VITE_LOCAL_LLM_MODEL || PROVIDERS.local.defaultModel,
+        baseUrl: import.meta.env.VITE_LOCAL_LLM_BASE_URL,
+      };
+  }
+}
+
+// Provider selected in Settings, else VITE_LLM_PROVIDER, else Anthropic
+export function getActiveProviderId(): LLMProviderId {
+  const fromSettings = getLLMSettings().provider;
+  if (isProviderId(fromSettings)) return fromSettings;
+  const fromEnv = import.meta.env.VITE_LLM_PROVIDER;
+  return isProviderId(fromEnv) ? fromEnv : "anthropic";
+}
+
+export function getProviderConfig(
+  id: LLMProviderId = getActiveProviderId(),
+  settings: LLMSettings = getLLMSettings()
+): LLMProviderConfig {
+  const provider = PROVIDERS[id];
+  const env = getEnvConfig(id);
+  // Model and base URL overrides only apply to the provider they were saved for
+  const overrides = settings.provider === id ? settings : {};
+  const customBaseUrl = overrides.baseUrl || env.baseUrl;
+
+  // Without a browser key, use the server proxy (like generateJWT falls back to /api/jwt)
+  const proxied = !env.apiKey && !customBaseUrl && !!provider.proxyBaseUrl;
+
+  return {
+    id,
+    label: provider.label,
+    apiKey: env.apiKey,
+    model: overrides.model || env.model,
+    baseUrl: (proxied ? provider.proxyBaseUrl : customBaseUrl || provider.defaultBaseUrl).replace(/\/+$/, ""),
+    proxied,
+  };
+}
+
+export function isProviderConfigured(config: LLMProviderConfig): boolean {
+  const hasKey = config.proxied || !!config.apiKey || !PROVIDERS[config.id].requiresApiKey;
+  return !!config.baseUrl && !!config.model && hasKey;
+}
+
+export function getProviderConfigHint(id: LLMProviderId): string {
+  return PROVIDERS[id].configHint;
+}
+
+export function sendProviderMessage(config: LLMProviderConfig, request: LLMRequest): Promise<LLMResponse> {
+  return PROVIDERS[config.id].send(config, request);
+}
+
+// ============================================================================
+// Anthropic Messages API
+// ============================================================================
+
+// Server-sent event from the streaming Messages API
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: LLMResponse;
+  content_block?: LLMContentBlock;
+  delta?: {
+    type?: string;
+    text?: string;
+    partial_json?: string;
+    stop_reason?: LLMResponse["stop_reason"];
+  };
+  usage?: { output_tokens: number };
+  error?: { type: string; message: string };
+}
+
+// Auth headers for a direct call; the server proxy identifies the user by the session cookie
+function getRequestHeaders(config: LLMProviderConfig, authHeaders: Record<string, string>): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.proxied) {
+    return headers;
+  }
+  return config.apiKey ? { ...headers, ...authHeaders } : headers;
+}
+
+// The API rejects fields it doesn't know
+function toAnthropicMessages(messages: LLMMessage[]): LLMMessage[] {
+  return messages.map((message) =>
+    typeof message.content === "string"
+      ? message
+      : { ...message, content: message.content.map(({ inputError, ...block }) => block) }
+  );
+}
+
+async function sendAnthropicMessage(config: LLMProviderConfig, request: LLMRequest): Promise<LLMResponse> {
+  if (!config.apiKey && !config.proxied) {
+    throw new Error("Anthropic API key not configured");
+  }
+
+  const response = await fetch(`${config.baseUrl}/messages`, {
+    method: "POST",
+    headers: getRequestHeaders(config, {
+      "x-api-key": config.apiKey,
+      "anthropic-version": "2023-06-01",
+      "anthropic-dangerous-direct-browser-access": "true",
+    }),
+    body: JSON.stringify({
+      model: config.model,
+      max_tokens: request.maxTokens,
+      system: request.system,
+      tools: request.tools,
+      messages: toAnthropicMessages(request.messages),
+      stream: true,
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Anthropic API error: ${response.status} - ${error}`);
+  }
+
+  if (!response.body) {
+    throw new Error("Anthropic API error: empty response stream");
+  }
+
+  // Rebuild the message from stream events
+  let responseData: LLMResponse | null = null;
+  const partialToolInputs = new Map<number, string>();
+
+  for await (const event of readSSEEvents<AnthropicStreamEvent>(response.body)) {
+    switch (event.type) {
+      case "message_start":
+        responseData = { ...event.message, content: [] };
+        break;
+
+      case "content_block_start":
+        if (responseData && event.index !== undefined && event.content_block) {
+          responseData.content[event.index] = { ...event.content_block };
+          if (event.content_block.type === "tool_use") {
+            partialToolInputs.set(event.index, "");
+          }
+        }
+        break;
+
+      case "content_block_delta": {
+        const block = event.index !== undefined ? responseData?.content[event.index] : undefined;
+        if (!block || !event.delta) break;
+
+        if (event.delta.type === "text_delta" && event.delta.text) {
+          block.text = (block.text || "") + event.delta.text;
+          request.onTextDelta?.(event.delta.text);
+        } else if (event.delta.type === "input_json_delta") {
+          partialToolInputs.set(
+            event.index,
+            (partialToolInputs.get(event.index) || "") + (event.delta.partial_json || "")
+          );
+        }
+        break;
+      }
+
+      case "content_block_stop": {
+        const block = event.index !== undefined ? responseData?.content[event.index] : undefined;
+        if (block?.type === "tool_use") {
+          Object.assign(block, parseToolArguments(partialToolInputs.get(event.index) || ""));
+          partialToolInputs.delete(event.index);
+        }
+        break;
+      }
+
+      case "message_delta":
+        if (responseData) {
+          if (event.delta?.stop_reason) {
+            responseData.stop_reason = event.delta.stop_reason;
+          }
+          if (event.usage) {
+            responseData.usage = { ...responseData.usage, output_tokens: event.usage.output_tokens };
+          }
+        }
+        break;
+
+      case "error":
+        throw new Error(`Anthropic API error: ${event.error?.type} - ${event.error?.message}`);
+    }
+  }
+
+  if (!responseData) {
+    throw new Error("Anthropic API error: stream ended before message_start");
+  }
+
+  return responseData;
+}
+
+// ============================================================================
+// OpenAI Chat Completions (also used for OpenAI-compatible local servers)
+// ============================================================================
+
+type OpenAIMessage =
+  | { role: "system" | "user"; content: string }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: { id: string; type: "function"; function: { name: string; arguments: string } }[];
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIStreamChunk {
+  id?: string;
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+    finish_reason?: string | null;
+  }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+  error?: { message?: string; type?: string };
+}
+
+function toOpenAITools(tools: LLMTool[]) {
+  return tools.map((tool) => ({
+    type: "function" as const,
+    function: {
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.input_schema,
+    },
+  }));
+}
+
+// Flatten content blocks into Chat Completions messages
+function toOpenAIMessages(system: string | undefined, messages: LLMMessage[]): OpenAIMessage[] {
+  const result: OpenAIMessage[] = system ? [{ role: "system", content: system }] : [];
+
+  for (const message of messages) {
+    if (typeof message.content === "string") {
+      result.push({ role: message.role, content: message.content });
+      continue;
+    }
+
+    const text = message.content
+      .filter((block) => block.type === "text")
+      .map((block) => block.text || "")
+      .join("\n");
+
+    if (message.role === "assistant") {
+      const toolUses = message.content.filter((block) => block.type === "tool_use");
+      result.push({
+        role: "assistant",
+        content: text || null,
+        tool_calls: toolUses.length > 0
+          ? toolUses.map((block) => ({
+              id: block.id || "",
+              type: "function" as const,
+              function: { name: block.name || "", arguments: JSON.stringify(block.input || {}) },
+            }))
+          : undefined,
+      });
+      continue;
+    }
+
+    // Tool results become one "tool" message per call
+    for (const block of message.content) {
+      if (block.type === "tool_result") {
+        result.push({ role: "tool", tool_call_id: block.tool_use_id || "", content: block.content || "" });
+      }
+    }
+    if (text) {
+      result.push({ role: "user", content: text });
+    }
+  }
+
+  return result;
+}
+
+// Tool input streamed as JSON text. Input that isn't a JSON object, e.g. cut off at
+// max_tokens, fails only that tool call rather than the whole turn.
+function parseToolArguments(json: string): Pick<LLMContentBlock, "input" | "inputError"> {
+  if (!json.trim()) return { input: {} };
+  try {
+    const input: unknown = JSON.parse(json);
+    if (typeof input === "object" && input !== null && !Array.isArray(input)) {
+      return { input: input as Record<string, unknown> };
+    }
+  } catch {
+    // Reported below
+  }
+  return { input: {}, inputError: `Model returned invalid tool arguments: ${json.slice(0, 200)}` };
+}
+
+async function sendOpenAIMessage(config: LLMProviderConfig, request: LLMRequest): Promise<LLMResponse> {
+  const { label } = config;
+  if (PROVIDERS[config.id].requiresApiKey && !config.apiKey && !config.proxied) {
+    throw new Error(`${label} API key not configured`);
+  }
+
+  const response = await fetch(`${config.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: getRequestHeaders(config, { Authorization: `Bearer ${config.apiKey}` }),
+    body: JSON.stringify({
+      model: config.model,
+      max_tokens: request.maxTokens,
+      messages: toOpenAIMessages(request.system, request.messages),
+      tools: request.tools.length > 0 ? toOpenAITools(request.tools) : undefined,
+      stream: true,
+      stream_options: { include_usage: true },
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`${label} API error: ${response.status} - ${error}`);
+  }
+
+  if (!response.body) {
+    throw new Error(`${label} API error: empty response stream`);
+  }
+
+  // Rebuild the message from streamed chunks; tool call arguments arrive in pieces by index
+  let id = "";
+  let text = "";
+  let finishReason: string | null = null;
+  let usage = { input_tokens: 0, output_tokens: 0 };
+  const toolCalls = new Map<number, { id: string; name: string; arguments: string }>();
+
+  for await (const chunk of readSSEEvents<OpenAIStreamChunk>(response.body)) {
+    if (chunk.error) {
+      throw new Error(`${label} API error: ${chunk.error.type || "error"} - ${chunk.error.message}`);
+    }
+    if (chunk.id) id = chunk.id;
+    if (chunk.usage) {
+      usage = {
+        input_tokens: chunk.usage.prompt_tokens || 0,
+        output_tokens: chunk.usage.completion_tokens || 0,
+      };
+    }
+
+    const choice = chunk.choices?.[0];
+    if (!choice) continue;
+
+    if (choice.delta?.content) {
+      text += choice.delta.content;
+      request.onTextDelta?.(choice.delta.content);
+    }
+    for (const call of choice.delta?.tool_calls || []) {
+      const existing = toolCalls.get(call.index) || { id: "", name: "", arguments: "" };
+      toolCalls.set(call.index, {
+        id: call.id || existing.id,
+        name: existing.name + (call.function?.name || ""),
+        arguments: existing.arguments + (call.function?.arguments || ""),
+      });
+    }
+    if (choice.finish_reason) finishReason = choice.finish_reason;
+  }
+
+  const content: LLMContentBlock[] = text ? [{ type: "text", text }] : [];
+  const sortedCalls = [...toolCalls.entries()].sort(([a], [b]) => a - b);
+  for (const [index, call] of sortedCalls) {
+    content.push({
+      type: "tool_use",
+      // Some local servers omit call ids
+      id: call.id || `call_${index}`,
+      name: call.name,
+      ...parseToolArguments(call.arguments),
+    });
+  }
+
+  // Local servers don't always report "tool_calls" as the finish reason
+  const stopReason: LLMResponse["stop_reason"] =
+    toolCalls.size > 0 ? "tool_use" : finishReason === "length" ? "max_tokens" : "end_turn";
+
+  return { id, content, stop_reason: stopReason, usage };
+}
+
+const PROVIDERS: Record<LLMProviderId, ProviderDefinition> = {
+  anthropic: {
+    label: "Anthropic",
+    defaultModel: "claude-sonnet-4-20250514",
+    defaultBaseUrl: "https://api.anthropic.com/v1",
+    requiresApiKey: true,
+    proxyBaseUrl: "/api/llm/anthropic",
+    configHint: "Set ANTHROPIC_API_KEY on the server (or VITE_ANTHROPIC_API_KEY for direct browser access).",
+    send: sendAnthropicMessage,
+  },
+  openai: {
+    label: "OpenAI",
+    defaultModel: "gpt-4o",
+    defaultBaseUrl: "https://api.openai.com/v1",
+    requiresApiKey: true,
+    proxyBaseUrl: "/api/llm/openai",
+    configHint: "Set OPENAI_API_KEY on the server (or VITE_OPENAI_API_KEY for direct browser access).",
+    send: sendOpenAIMessage,
+  },
+  local: {
+    label: "Local model",
+    defaultModel: "llama3.1",
+    defaultBaseUrl: "http://localhost:11434/v1",
+    requiresApiKey: false,
+    configHint: "Set VITE_LOCAL_LLM_BASE_URL and VITE_LOCAL_LLM_MODEL, or configure them in Settings.",
+    send: sendOpenAIMessage,
+  },
+};
+
+export const LLM_PROVIDER_OPTIONS: { id: LLMProviderId; label: string; defaultModel: string; defaultBaseUrl: string }[] =
+  (Object.keys(PROVIDERS) as LLMProviderId[]).map((id) => ({
+    id,
+    label: PROVIDERS[id].label,
+    defaultModel: PROVIDERS[id].defaultModel,
+    defaultBaseUrl: PROVIDERS[id].defaultBaseUrl,
+  }));
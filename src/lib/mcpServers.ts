@@ -0,0 +1,96 @@
+// Other MCP servers the AI Data Advisor can use alongside CData, such as an internal
+// docs server or a local stand-in. Admins register them in Settings; the list is kept
+// on the server (server/mcpServers.ts), which also relays every call and adds the
+// server's Authorization header, so the browser never sees it.
+// Their tools reach the model as "<server id>__<tool>"; CData's keep their own names,
+// and calls are routed back to the server by that prefix.
+
+import type { MCPEndpoint, MCPTool } from "./cdata";
+
+export interface MCPServerConfig {
+  // Namespace for the server's tools
+  id: string;
+  url: string;
+  enabled: boolean;
+  // Whether the server adds an Authorization header; the value itself stays there
+  hasAuthHeader?: boolean;
+  // Only sent when saving, e.g. "Bearer <token>". Left out, the saved header is kept.
+  authHeader?: string;
+}
+
+const API_ROUTE = "/api/mcp-servers";
+
+export const TOOL_NAMESPACE_SEPARATOR = "__";
+
+// Letters, digits and single hyphens, so the separator can't appear in an id
+const SERVER_ID_PATTERN = /^[a-zA-Z0-9]+(-[a-zA-Z0-9]+)*$/;
+const MAX_SERVER_ID_LENGTH = 20;
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.error || fallback;
+}
+
+// Admins get every server; other users only the enabled ones
+export async function fetchMCPServers(): Promise<MCPServerConfig[]> {
+  const response = await fetch(API_ROUTE);
+  if (!response.ok) {
+    throw new Error(await readError(response, "Failed to load MCP servers"));
+  }
+  return response.json();
+}
+
+export async function saveMCPServers(servers: MCPServerConfig[]): Promise<MCPServerConfig[]> {
+  const response = await fetch(API_ROUTE, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(servers.map(({ id, url, enabled, authHeader }) => ({ id, url, enabled, authHeader }))),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response, "Failed to save MCP servers"));
+  }
+  return response.json();
+}
+
+// Returns what's wrong with the server, or null when it can be saved
+export function validateMCPServer(server: MCPServerConfig, others: MCPServerConfig[]): string | null {
+  if (!SERVER_ID_PATTERN.test(server.id) || server.id.length > MAX_SERVER_ID_LENGTH) {
+    return `Name must be up to ${MAX_SERVER_ID_LENGTH} letters, digits or hyphens`;
+  }
+  if (others.some((other) => other.id.toLowerCase() === server.id.toLowerCase())) {
+    return `A server named "${server.id}" already exists`;
+  }
+  try {
+    const url = new URL(server.url);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return "URL must use http or https";
+  } catch {
+    return "URL is not valid";
+  }
+  return null;
+}
+
+// Calls go through the app's server, which knows the server's URL and header
+export function getServerEndpoint(server: MCPServerConfig): MCPEndpoint {
+  return { url: `${API_ROUTE}/${server.id}/mcp` };
+}
+
+// The server's tools under their namespaced names
+export function namespaceTools(server: MCPServerConfig, tools: MCPTool[]): MCPTool[] {
+  return tools.map((tool) => ({
+    ...tool,
+    name: `${server.id}${TOOL_NAMESPACE_SEPARATOR}${tool.name}`,
+    description: tool.description ? `[${server.id}] ${tool.description}` : `Tool from the ${server.id} MCP server`,
+  }));
+}
+
+// Server id and original name of a namespaced tool, or null for CData's tools
+export function splitToolName(name: string): { serverId: string; toolName: string } | null {
+  const index = name.indexOf(TOOL_NAMESPACE_SEPARATOR);
+  if (index <= 0) return null;
+  return { serverId: name.slice(0, index), toolName: name.slice(index + TOOL_NAMESPACE_SEPARATOR.length) };
+}
+
+// The name the owning server knows the tool by
+export function getBaseToolName(name: string): string {
+  return splitToolName(name)?.toolName ?? name;
+}
@@ -0,0 +1,192 @@
+// Role-based schema permissions, stored on the server (/api/permissions).
+// A role's policy lists the schemas, tables and columns it may see; "*" grants
+// everything below that level. Row filters further limit a table to the rows
+// matching a SQL predicate. Admins always have full access.
+
+export const ADMIN_ROLE = "admin";
+
+// Must match server/permissions.ts
+export type TableAccess = "*" | string[];
+export type SchemaAccess = "*" | Record<string, TableAccess>;
+
+export interface RolePolicy {
+  label: string;
+  // Schema -> Table -> Columns
+  schemas: Record<string, SchemaAccess>;
+  // Schema -> Table -> SQL predicate, e.g. "[OwnerEmail] = {{user.email}}"
+  rowFilters?: Record<string, Record<string, string>>;
+}
+
+export interface RowFilter {
+  schema: string;
+  table: string;
+  predicate: string;
+}
+
+export interface PermissionsDocument {
+  roles: Record<string, RolePolicy>;
+}
+
+export type AccessLevel = "all" | "partial" | "none";
+
+async function readError(response: Response, fallback: string): Promise<string> {
+  const data = await response.json().catch(() => ({}));
+  return data.error || fallback;
+}
+
+// Admins get every role; other users only their own
+export async function fetchPermissions(): Promise<PermissionsDocument> {
+  const response = await fetch("/api/permissions");
+  if (!response.ok) {
+    throw new Error(await readError(response, "Failed to load permissions"));
+  }
+  return response.json();
+}
+
+export async function savePermissions(document: PermissionsDocument): Promise<PermissionsDocument> {
+  const response = await fetch("/api/permissions", {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(document),
+  });
+  if (!response.ok) {
+    throw new Error(await readError(response, "Failed to save permissions"));
+  }
+  return response.json();
+}
+
+// ============================================================================
+// Access checks (a missing policy grants nothing). Names match case-insensitively,
+// as they do in CData SQL.
+// ============================================================================
+
+function lookup<T>(record: Record<string, T> | undefined, name: string): T | undefined {
+  if (!record) return undefined;
+  if (name in record) return record[name];
+  const key = Object.keys(record).find((candidate) => candidate.toLowerCase() === name.toLowerCase());
+  return key === undefined ? undefined : record[key];
+}
+
+export function getSchemaAccess(policy: RolePolicy | undefined, schema: string): AccessLevel {
+  const access = lookup(policy?.schemas, schema);
+  if (access === "*") return "all";
+  return access && Object.keys(access).length > 0 ? "partial" : "none";
+}
+
+// Columns granted on a table: "*" for all, otherwise the explicit list (empty for none)
+export function getAllowedColumns(policy: RolePolicy | undefined, schema: string, table: string): TableAccess {
+  const access = lookup(policy?.schemas, schema);
+  if (access === "*") return "*";
+  return lookup(access, table) ?? [];
+}
+
+export function getTableAccess(policy: RolePolicy | undefined, schema: string, table: string): AccessLevel {
+  const columns = getAllowedColumns(policy, schema, table);
+  if (columns === "*") return "all";
+  return columns.length > 0 ? "partial" : "none";
+}
+
+export function isColumnAllowed(policy: RolePolicy | undefined, schema: string, table: string, column: string): boolean {
+  const columns = getAllowedColumns(policy, schema, table);
+  return columns === "*" || columns.some((name) => name.toLowerCase() === column.toLowerCase());
+}
+
+export function getRowFilter(policy: RolePolicy | undefined, schema: string, table: string): string | undefined {
+  return lookup(lookup(policy?.rowFilters, schema), table);
+}
+
+export function listRowFilters(policy: RolePolicy | undefined): RowFilter[] {
+  return Object.entries(policy?.rowFilters ?? {}).flatMap(([schema, tables]) =>
+    Object.entries(tables).map(([table, predicate]) => ({ schema, table, predicate }))
+  );
+}
+
+// ============================================================================
+// Editing. Each helper returns a new policy. When a grant of "*" has to be
+// narrowed, the known siblings (the children loaded in the schema tree) are
+// granted explicitly in its place.
+// ============================================================================
+
+export function setSchemaAccess(policy: RolePolicy, schema: string, allowed: boolean): RolePolicy {
+  const schemas = { ...policy.schemas };
+  if (allowed) {
+    schemas[schema] = "*";
+  } else {
+    delete schemas[schema];
+  }
+  return { ...policy, schemas };
+}
+
+function expandSchema(policy: RolePolicy, schema: string, knownTables: string[]): Record<string, TableAccess> {
+  const access = policy.schemas[schema];
+  if (access === "*") {
+    return Object.fromEntries(knownTables.map((table) => [table, "*" as const]));
+  }
+  return { ...(access || {}) };
+}
+
+function withTables(policy: RolePolicy, schema: string, tables: Record<string, TableAccess>): RolePolicy {
+  const schemas = { ...policy.schemas };
+  if (Object.keys(tables).length > 0) {
+    schemas[schema] = tables;
+  } else {
+    delete schemas[schema];
+  }
+  return { ...policy, schemas };
+}
+
+export function setTableAccess(
+  policy: RolePolicy,
+  schema: string,
+  table: string,
+  allowed: boolean,
+  knownTables: string[]
+): RolePolicy {
+  const tables = expandSchema(policy, schema, knownTables);
+  if (allowed) {
+    tables[table] = "*";
+  } else {
+    delete tables[table];
+  }
+  return withTables(policy, schema, tables);
+}
+
+export function setColumnAccess(
+  policy: RolePolicy,
+  schema: string,
+  table: string,
+  column: string,
+  allowed: boolean,
+  knownTables: string[],
+  knownColumns: string[]
+): RolePolicy {
+  const current = knownColumns.filter((name) => isColumnAllowed(policy, schema, table, name));
+  const columns = allowed
+    ? Array.from(new Set([...current, column]))
+    : current.filter((name) => name !== column);
+
+  const tables = expandSchema(policy, schema, knownTables);
+  if (columns.length > 0) {
+    tables[table] = columns;
+  } else {
+    delete tables[table];
+  }
+  return withTables(policy, schema, tables);
+}
+
+// Sets or, with an empty predicate, removes the row filter on a table
+export function setRowFilter(policy: RolePolicy, schema: string, table: string, predicate: string): RolePolicy {
+  const rowFilters = { ...policy.rowFilters };
+  const tables = { ...rowFilters[schema] };
+  if (predicate.trim()) {
+    tables[table] = predicate;
+  } else {
+    delete tables[table];
+  }
+  if (Object.keys(tables).length > 0) {
+    rowFilters[schema] = tables;
+  } else {
+    delete rowFilters[schema];
+  }
+  return { ...policy, rowFilters };
+}
@@ -0,0 +1,31 @@
+// Query result cache for CDataContext.queryData, held in the app's react-query
+// QueryClient. Results are keyed by subscriber and normalized SQL, so reformatting a
+// query still hits the cache while another subscriber's data never does.
+
+import type { QueryKey } from "@tanstack/react-query";
+import type { APIQueryResponse } from "./cdata";
+import { normalizeSql } from "./sql";
+
+export const QUERY_CACHE_KEY = "cdata-query";
+
+// How long results stay fresh
+export const DEFAULT_QUERY_TTL = 60 * 1000;
+export const DASHBOARD_QUERY_TTL = 5 * 60 * 1000;
+// CData's sys_* metadata changes only when connections do
+export const SCHEMA_QUERY_TTL = 10 * 60 * 1000;
+
+// How long results are kept after they go stale, for stale-while-revalidate
+export const QUERY_CACHE_RETENTION = 30 * 60 * 1000;
+
+export interface QueryCacheOptions {
+  // Freshness in ms; with 0 a cached result is never fresh
+  ttl?: number;
+  // Stale-while-revalidate: a stale result is returned at once and refreshed in the
+  // background, then passed here
+  onRevalidate?: (response: APIQueryResponse) => void;
+}
+
+// The SQL is the one that actually runs, after permissions and row filters
+export function getQueryCacheKey(subscriber: string, sql: string): QueryKey {
+  return [QUERY_CACHE_KEY, subscriber, normalizeSql(sql)];
+}
@@ -0,0 +1,116 @@
+// Helpers for finding tabular data in tool results and shaping it for charts
+
+import type { QueryResult, QueryResultSchema } from "./cdata";
+
+export type ChartType = "bar" | "line" | "pie";
+
+export interface ChartAxes {
+  categoryKey: string;
+  valueKeys: string[];
+  isTimeSeries: boolean;
+}
+
+const NUMERIC_TYPE = /int|decimal|numeric|double|float|real|money|long|short|byte|number/i;
+const DATE_TYPE = /date|time/i;
+const MAX_SERIES = 5;
+
+function isQueryResult(value: unknown): value is QueryResult {
+  const candidate = value as QueryResult;
+  return (
+    !!candidate &&
+    Array.isArray(candidate.schema) &&
+    Array.isArray(candidate.rows) &&
+    candidate.schema.every((col) => typeof col?.columnName === "string")
+  );
+}
+
+// Rows may come back as arrays (REST API) or objects keyed by column name
+function normalizeRows(schema: QueryResultSchema[], rows: unknown[]): unknown[][] {
+  return rows.map((row) =>
+    Array.isArray(row)
+      ? row
+      : schema.map((col) => (row as Record<string, unknown>)?.[col.columnName] ?? null)
+  );
+}
+
+function collectResults(value: unknown, found: QueryResult[], depth = 0): void {
+  if (depth > 8 || value === null || value === undefined) return;
+
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (!trimmed.startsWith("{") && !trimmed.startsWith("[")) return;
+    try {
+      collectResults(JSON.parse(trimmed), found, depth + 1);
+    } catch {
+      // Plain text, not JSON
+    }
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectResults(item, found, depth + 1));
+    return;
+  }
+
+  if (typeof value !== "object") return;
+
+  if (isQueryResult(value)) {
+    found.push({ schema: value.schema, rows: normalizeRows(value.schema, value.rows) });
+    return;
+  }
+
+  // APIQueryResponse, MCP content blocks and structured content
+  const obj = value as Record<string, unknown>;
+  for (const key of ["results", "structuredContent", "content", "text", "data"]) {
+    if (key in obj) collectResults(obj[key], found, depth + 1);
+  }
+}
+
+// Extract every schema + rows result contained in a tool result
+export function extractQueryResults(toolResult: unknown): QueryResult[] {
+  const found: QueryResult[] = [];
+  collectResults(toolResult, found);
+  return found.filter((result) => result.schema.length > 0);
+}
+
+export function isNumericColumn(column: QueryResultSchema): boolean {
+  return NUMERIC_TYPE.test(column.dataTypeName || "");
+}
+
+// Pick a category axis and numeric series from column data types
+export function inferChartAxes(result: QueryResult): ChartAxes | null {
+  const numeric = result.schema.filter(isNumericColumn);
+  if (numeric.length === 0) return null;
+
+  const nonNumeric = result.schema.filter((col) => !isNumericColumn(col));
+  const dateColumn = nonNumeric.find((col) => DATE_TYPE.test(col.dataTypeName || ""));
+  const category = dateColumn || nonNumeric[0] || (numeric.length > 1 ? numeric[0] : null);
+  if (!category) return null;
+
+  return {
+    categoryKey: category.columnName,
+    valueKeys: numeric
+      .filter((col) => col.columnName !== category.columnName)
+      .slice(0, MAX_SERIES)
+      .map((col) => col.columnName),
+    isTimeSeries: !!dateColumn,
+  };
+}
+
+// Convert rows to recharts data objects, coercing numeric series
+export function toChartData(result: QueryResult, axes: ChartAxes): Record<string, string | number>[] {
+  const indexOf = (name: string) => result.schema.findIndex((col) => col.columnName === name);
+  const categoryIndex = indexOf(axes.categoryKey);
+  const valueIndexes = axes.valueKeys.map(indexOf);
+
+  return result.rows.map((row) => {
+    const point: Record<string, string | number> = {
+      [axes.categoryKey]: String(row[categoryIndex] ?? "(null)"),
+    };
+    axes.valueKeys.forEach((key, i) => {
+      const num = Number(row[valueIndexes[i]]);
+      point[key] = Number.isFinite(num) ? num : 0;
+    });
+    return point;
+  });
+}
@@ -0,0 +1,838 @@
+// Lightweight SQL analysis for the statements sent to CData's /query endpoint.
+// Tokenizes the SQL, classifies each statement and, for SELECT queries, resolves
+// the tables, columns and "*" it references. Not a full parser: it understands
+// the dialect CData accepts well enough to check and rewrite queries safely.
+
+export type SqlTokenType = "word" | "identifier" | "string" | "number" | "variable" | "punct" | "operator";
+
+export interface SqlToken {
+  type: SqlTokenType;
+  // Unquoted name for identifiers, raw text otherwise
+  value: string;
+  start: number;
+  end: number;
+}
+
+export type SqlStatementKind = "select" | "write" | "procedure" | "other";
+
+export interface SqlTableRef {
+  catalog?: string;
+  schema?: string;
+  table: string;
+  alias?: string;
+  // Table-valued function call in FROM
+  isFunction: boolean;
+  // Position of the (possibly qualified) name in the SQL
+  start: number;
+  end: number;
+  // Position just after the name and alias, where the source ends
+  sourceEnd: number;
+}
+
+export type SqlSource =
+  | { kind: "table"; table: SqlTableRef }
+  // Subquery or CTE; columns are its output names, or null when they can't be determined
+  | { kind: "derived"; name: string; columns: string[] | null };
+
+export interface SqlColumnRef {
+  column: string;
+  qualifier: string[];
+  // Where the column can come from: one source when qualified, every source in scope
+  // when not, none when the qualifier doesn't match anything
+  sources: SqlSource[];
+  // For an unqualified column in a subquery, the enclosing queries' sources: SQL binds
+  // it to one of those when no source in its own FROM has the column
+  outerSources: SqlSource[];
+  start: number;
+  end: number;
+}
+
+export interface SqlStarRef {
+  qualifier: string[];
+  sources: SqlSource[];
+  // False when the star sits inside an expression, e.g. COUNT(a.*), and can't be expanded
+  inSelectList: boolean;
+  start: number;
+  end: number;
+}
+
+export interface SqlStatement {
+  kind: SqlStatementKind;
+  // Leading keyword, upper-cased (SELECT, UPDATE, EXEC, ...)
+  keyword: string;
+  start: number;
+  end: number;
+  tables: SqlTableRef[];
+  columns: SqlColumnRef[];
+  stars: SqlStarRef[];
+}
+
+const WRITE_KEYWORDS = new Set(["INSERT", "UPDATE", "DELETE", "MERGE", "UPSERT", "REPLACE", "CREATE", "ALTER", "DROP", "TRUNCATE"]);
+const PROCEDURE_KEYWORDS = new Set(["EXEC", "EXECUTE", "CALL"]);
+
+// Words that are never column names when they appear unquoted
+const KEYWORDS = new Set([
+  "ALL", "AND", "ANY", "APPLY", "AS", "ASC", "BETWEEN", "BY", "CASE", "CROSS", "CURRENT", "DESC", "DISTINCT",
+  "ELSE", "END", "ESCAPE", "EXCEPT", "EXISTS", "FALSE", "FETCH", "FIRST", "FOLLOWING", "FOR", "FROM", "FULL",
+  "GROUP", "HAVING", "IN", "INNER", "INTERSECT", "INTO", "IS", "JOIN", "LATERAL", "LEFT", "LIKE", "LIMIT",
+  "MINUS", "NATURAL", "NEXT", "NOT", "NULL", "NULLS", "OFFSET", "ON", "ONLY", "OR", "ORDER", "OUTER", "OVER",
+  "PARTITION", "PERCENT", "PRECEDING", "RANGE", "RIGHT", "ROW", "ROWS", "SELECT", "SOME", "THEN", "TIES",
+  "TOP", "TRUE", "UNBOUNDED", "UNION", "USING", "VALUES", "WHEN", "WHERE", "WINDOW", "WITH",
+]);
+
+// Keywords that may be followed by "(" without being a function call
+const PAREN_KEYWORDS = new Set(["ALL", "AND", "ANY", "AS", "ELSE", "EXISTS", "IN", "IS", "LIKE", "NOT", "ON", "OR", "OVER", "SOME", "THEN", "WHEN", "USING", "VALUES", "BETWEEN"]);
+
+// Keywords that end an operand, so a name right after them is an alias
+const OPERAND_KEYWORDS = new Set(["END", "NULL", "TRUE", "FALSE"]);
+
+// Functions whose first argument is a keyword (date part or type), not a column
+const KEYWORD_ARG_FUNCTIONS = new Set(["CONVERT", "DATEADD", "DATEDIFF", "DATEDIFF_BIG", "DATENAME", "DATEPART", "DATETRUNC", "EXTRACT", "TIMESTAMPADD", "TIMESTAMPDIFF"]);
+
+const JOIN_WORDS = new Set(["INNER", "LEFT", "RIGHT", "FULL", "OUTER", "CROSS", "JOIN", "NATURAL", "APPLY", "LATERAL"]);
+const SET_OPERATORS = new Set(["UNION", "INTERSECT", "EXCEPT", "MINUS"]);
+const CLAUSES = new Set(["SELECT", "FROM", "WHERE", "GROUP", "HAVING", "ORDER", "LIMIT", "OFFSET", "FETCH", "WINDOW", "FOR"]);
+// Sort direction after an ORDER BY item
+const ORDER_MODIFIERS = new Set(["ASC", "DESC", "NULLS", "FIRST", "LAST"]);
+
+const OPERATORS = ["<>", "!=", "<=", ">=", "||", "::", "=", "<", ">", "+", "-", "/", "%", "&", "|", "^", "~", "!"];
+
+// ============================================================================
+// Tokenizer
+// ============================================================================
+
+export class SqlSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SqlSyntaxError";
+  }
+}
+
+function readQuoted(sql: string, start: number, close: string): { value: string; end: number } {
+  let value = "";
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === close) {
+      // A doubled closing character is an escaped one
+      if (sql[i + 1] === close) {
+        value += close;
+        i += 2;
+        continue;
+      }
+      return { value, end: i + 1 };
+    }
+    value += sql[i];
+    i++;
+  }
+  throw new SqlSyntaxError(`Unterminated ${close === "'" ? "string" : "identifier"} starting at position ${start}`);
+}
+
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  while (i < sql.length) {
+    const ch = sql[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Comments
+    if (ch === "-" && sql[i + 1] === "-") {
+      const newline = sql.indexOf("\n", i);
+      i = newline === -1 ? sql.length : newline + 1;
+      continue;
+    }
+    if (ch === "/" && sql[i + 1] === "*") {
+      const close = sql.indexOf("*/", i + 2);
+      if (close === -1) throw new SqlSyntaxError("Unterminated comment");
+      i = close + 2;
+      continue;
+    }
+
+    // Strings, including N'...' literals
+    if (ch === "'" || ((ch === "N" || ch === "n") && sql[i + 1] === "'")) {
+      const quote = ch === "'" ? i : i + 1;
+      const { end } = readQuoted(sql, quote, "'");
+      tokens.push({ type: "string", value: sql.slice(i, end), start: i, end });
+      i = end;
+      continue;
+    }
+
+    // Quoted identifiers
+    if (ch === "[" || ch === '"' || ch === "`") {
+      const { value, end } = readQuoted(sql, i, ch === "[" ? "]" : ch);
+      tokens.push({ type: "identifier", value, start: i, end });
+      i = end;
+      continue;
+    }
+
+    const number = /^(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?/.exec(sql.slice(i, i + 64));
+    if (number) {
+      tokens.push({ type: "number", value: number[0], start: i, end: i + number[0].length });
+      i += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_][\w$#]*/.exec(sql.slice(i, i + 256));
+    if (word) {
+      tokens.push({ type: "word", value: word[0], start: i, end: i + word[0].length });
+      i += word[0].length;
+      continue;
+    }
+
+    const variable = /^[@:?][\w$#@]*/.exec(sql.slice(i, i + 256));
+    if (variable && !(ch === ":" && sql[i + 1] === ":")) {
+      tokens.push({ type: "variable", value: variable[0], start: i, end: i + variable[0].length });
+      i += variable[0].length;
+      continue;
+    }
+
+    if ("(),.;*".includes(ch)) {
+      tokens.push({ type: "punct", value: ch, start: i, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    const operator = OPERATORS.find((op) => sql.startsWith(op, i));
+    if (operator) {
+      tokens.push({ type: "operator", value: operator, start: i, end: i + operator.length });
+      i += operator.length;
+      continue;
+    }
+
+    throw new SqlSyntaxError(`Unexpected character "${ch}" at position ${i}`);
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+interface Scope {
+  sources: SqlSource[];
+  parent?: Scope;
+}
+
+interface Analysis {
+  tables: SqlTableRef[];
+  columns: SqlColumnRef[];
+  stars: SqlStarRef[];
+}
+
+interface NameChain {
+  parts: string[];
+  star: boolean;
+  end: number;
+}
+
+export function sameName(a: string | undefined, b: string | undefined): boolean {
+  return a !== undefined && b !== undefined && a.toLowerCase() === b.toLowerCase();
+}
+
+class StatementAnalyzer {
+  private readonly tokens: SqlToken[];
+  private readonly closing: number[];
+  readonly result: Analysis = { tables: [], columns: [], stars: [] };
+
+  constructor(tokens: SqlToken[]) {
+    this.tokens = tokens;
+    this.closing = this.matchParens();
+  }
+
+  private matchParens(): number[] {
+    const closing: number[] = new Array(this.tokens.length).fill(-1);
+    const open: number[] = [];
+    this.tokens.forEach((token, index) => {
+      if (this.isPunct(index, "(")) open.push(index);
+      if (this.isPunct(index, ")")) {
+        const start = open.pop();
+        if (start === undefined) throw new SqlSyntaxError(`Unbalanced ")" at position ${token.start}`);
+        closing[start] = index;
+      }
+    });
+    if (open.length > 0) {
+      throw new SqlSyntaxError(`Unbalanced "(" at position ${this.tokens[open[0]].start}`);
+    }
+    return closing;
+  }
+
+  private isPunct(index: number, value: string): boolean {
+    const token = this.tokens[index];
+    return !!token && token.type === "punct" && token.value === value;
+  }
+
+  private word(index: number): string | null {
+    const token = this.tokens[index];
+    return token?.type === "word" ? token.value.toUpperCase() : null;
+  }
+
+  private isName(index: number): boolean {
+    const token = this.tokens[index];
+    return !!token && (token.type === "identifier" || token.type === "word");
+  }
+
+  private isKeyword(index: number): boolean {
+    const word = this.word(index);
+    return word !== null && KEYWORDS.has(word);
+  }
+
+  private startsQuery(index: number): boolean {
+    const word = this.word(index);
+    return word === "SELECT" || word === "WITH" || (this.isPunct(index, "(") && this.startsQuery(index + 1));
+  }
+
+  // Reads a dotted name such as [cat].[schema].[table], a.Name or q.*
+  private readNameChain(index: number): NameChain {
+    const parts = [this.tokens[index].value];
+    let i = index + 1;
+    let star = false;
+    while (this.isPunct(i, ".")) {
+      if (this.isPunct(i + 1, "*")) {
+        star = true;
+        i += 2;
+        break;
+      }
+      if (this.isPunct(i + 1, ".")) {
+        // cat..table uses the default schema
+        parts.push("");
+        i += 1;
+        continue;
+      }
+      if (!this.isName(i + 1)) break;
+      parts.push(this.tokens[i + 1].value);
+      i += 2;
+    }
+    return { parts, star, end: i };
+  }
+
+  // Splits [from, to) on top-level tokens matching the predicate
+  private splitTopLevel(from: number, to: number, isSeparator: (index: number) => boolean): Array<[number, number]> {
+    const ranges: Array<[number, number]> = [];
+    let start = from;
+    for (let i = from; i < to; i++) {
+      if (this.isPunct(i, "(")) {
+        i = this.closing[i];
+        continue;
+      }
+      if (isSeparator(i)) {
+        ranges.push([start, i]);
+        start = i + 1;
+      }
+    }
+    ranges.push([start, to]);
+    return ranges;
+  }
+
+  // Analyzes a query expression (WITH ... SELECT ... UNION SELECT ...) and returns its output columns
+  analyzeQuery(from: number, to: number, parent: Scope | undefined, ctes: Map<string, string[] | null>): string[] | null {
+    let i = from;
+    const localCtes = new Map(ctes);
+
+    if (this.word(i) === "WITH") {
+      i++;
+      if (this.word(i) === "RECURSIVE") i++;
+      while (i < to && this.isName(i)) {
+        const name = this.tokens[i].value;
+        let columns: string[] | null = null;
+        i++;
+        if (this.isPunct(i, "(")) {
+          const close = this.closing[i];
+          columns = this.tokens.slice(i + 1, close).filter((t) => t.type !== "punct").map((t) => t.value);
+          i = close + 1;
+        }
+        if (this.word(i) !== "AS" || !this.isPunct(i + 1, "(")) {
+          throw new SqlSyntaxError(`Expected AS (...) after common table expression "${name}"`);
+        }
+        const close = this.closing[i + 1];
+        // Registered first so recursive references resolve to the CTE itself
+        localCtes.set(name.toLowerCase(), columns);
+        const output = this.analyzeQuery(i + 2, close, parent, localCtes);
+        localCtes.set(name.toLowerCase(), columns ?? output);
+        i = close + 1;
+        if (!this.isPunct(i, ",")) break;
+        i++;
+      }
+    }
+
+    const blocks = this.splitTopLevel(i, to, (index) => SET_OPERATORS.has(this.word(index) ?? ""));
+    let output: string[] | null = null;
+    blocks.forEach(([start, end], index) => {
+      // Skip ALL/DISTINCT after UNION
+      let blockStart = start;
+      if (index > 0 && (this.word(blockStart) === "ALL" || this.word(blockStart) === "DISTINCT")) blockStart++;
+
+      let blockOutput: string[] | null;
+      if (this.isPunct(blockStart, "(") && this.startsQuery(blockStart + 1)) {
+        blockOutput = this.analyzeQuery(blockStart + 1, this.closing[blockStart], parent, localCtes);
+        // ORDER BY / LIMIT after a parenthesized block
+        this.scanExpression(this.closing[blockStart] + 1, end, { sources: [], parent }, localCtes);
+      } else {
+        blockOutput = this.analyzeSelect(blockStart, end, parent, localCtes);
+      }
+      // Output names come from the first block
+      if (index === 0) output = blockOutput;
+    });
+    return output;
+  }
+
+  private analyzeSelect(from: number, to: number, parent: Scope | undefined, ctes: Map<string, string[] | null>): string[] | null {
+    if (this.word(from) === "VALUES") {
+      this.scanExpression(from + 1, to, { sources: [], parent }, ctes);
+      return null;
+    }
+    if (this.word(from) !== "SELECT") {
+      throw new SqlSyntaxError(`Expected SELECT at position ${this.tokens[from]?.start ?? "end"}`);
+    }
+
+    // Locate the top-level clauses of this block
+    const clauses: Array<{ name: string; start: number }> = [];
+    for (let i = from; i < to; i++) {
+      if (this.isPunct(i, "(")) {
+        i = this.closing[i];
+        continue;
+      }
+      const word = this.word(i);
+      if (word && CLAUSES.has(word)) clauses.push({ name: word, start: i });
+    }
+    const clauseRange = (name: string): [number, number] | null => {
+      const index = clauses.findIndex((clause) => clause.name === name);
+      if (index === -1) return null;
+      const next = clauses[index + 1];
+      return [clauses[index].start + 1, next ? next.start : to];
+    };
+
+    const scope: Scope = { sources: [], parent };
+
+    const fromRange = clauseRange("FROM");
+    const joinConditions: Array<[number, number]> = [];
+    if (fromRange) {
+      this.parseFrom(fromRange[0], fromRange[1], scope, ctes, joinConditions);
+    }
+
+    const selectRange = clauseRange("SELECT")!;
+    const aliases = new Set<string>();
+    const output = this.parseSelectList(selectRange[0], selectRange[1], scope, ctes, aliases);
+
+    for (const [start, end] of joinConditions) {
+      this.scanExpression(start, end, scope, ctes);
+    }
+    for (const name of ["WHERE", "GROUP", "HAVING", "LIMIT", "OFFSET", "FETCH", "WINDOW"]) {
+      const range = clauseRange(name);
+      if (range) this.scanExpression(range[0], range[1], scope, ctes);
+    }
+    const orderRange = clauseRange("ORDER");
+    if (orderRange) this.scanOrderBy(orderRange[0], orderRange[1], scope, ctes, aliases);
+
+    return output;
+  }
+
+  // An ORDER BY item that is just a select-list alias sorts by that output column,
+  // already checked in the select list. Anything else, including an alias inside an
+  // expression, is checked against the tables: elsewhere a name matching an alias
+  // can still mean the table's column.
+  private scanOrderBy(from: number, to: number, scope: Scope, ctes: Map<string, string[] | null>, aliases: Set<string>): void {
+    const start = this.word(from) === "BY" ? from + 1 : from;
+    for (const [itemStart, itemEnd] of this.splitTopLevel(start, to, (index) => this.isPunct(index, ","))) {
+      let end = itemEnd;
+      while (end > itemStart && ORDER_MODIFIERS.has(this.word(end - 1) ?? "")) end--;
+      const isAlias =
+        end === itemStart + 1 &&
+        this.isName(itemStart) &&
+        this.readNameChain(itemStart).end === end &&
+        aliases.has(this.tokens[itemStart].value.toLowerCase());
+      if (!isAlias) this.scanExpression(itemStart, itemEnd, scope, ctes);
+    }
+  }
+
+  private parseSelectList(
+    from: number,
+    to: number,
+    scope: Scope,
+    ctes: Map<string, string[] | null>,
+    aliases: Set<string>
+  ): string[] | null {
+    let i = from;
+    // SELECT [ALL | DISTINCT] [TOP n [PERCENT] [WITH TIES]]
+    if (this.word(i) === "ALL" || this.word(i) === "DISTINCT") i++;
+    if (this.word(i) === "TOP") {
+      i++;
+      i = this.isPunct(i, "(") ? this.closing[i] + 1 : i + 1;
+      if (this.word(i) === "PERCENT") i++;
+      if (this.word(i) === "WITH" && this.word(i + 1) === "TIES") i += 2;
+    }
+
+    const output: string[] = [];
+    let complete = true;
+    for (const [start, end] of this.splitTopLevel(i, to, (index) => this.isPunct(index, ","))) {
+      if (start >= end) continue;
+
+      // * or q.*
+      if (this.isPunct(start, "*") && end === start + 1) {
+        this.result.stars.push({ qualifier: [], sources: [...scope.sources], inSelectList: true, start: this.tokens[start].start, end: this.tokens[start].end });
+        complete = false;
+        continue;
+      }
+      if (this.isName(start)) {
+        const chain = this.readNameChain(start);
+        if (chain.star && chain.end === end) {
+          this.result.stars.push({
+            qualifier: chain.parts,
+            sources: this.resolveQualifier(chain.parts, scope),
+            inSelectList: true,
+            start: this.tokens[start].start,
+            end: this.tokens[end - 1].end,
+          });
+          complete = false;
+          continue;
+        }
+      }
+
+      this.scanExpression(start, end, scope, ctes);
+
+      // Output name: explicit or implicit alias, or the column name itself
+      const last = end - 1;
+      const hasAlias =
+        this.isName(last) &&
+        !this.isKeyword(last) &&
+        last > start &&
+        !this.isPunct(last - 1, ".") &&
+        (this.word(last - 1) === "AS" || this.endsOperand(last - 1));
+      if (hasAlias) {
+        aliases.add(this.tokens[last].value.toLowerCase());
+        output.push(this.tokens[last].value);
+      } else if (this.isName(start) && this.readNameChain(start).end === end) {
+        const parts = this.readNameChain(start).parts;
+        output.push(parts[parts.length - 1]);
+      } else {
+        complete = false;
+      }
+    }
+    return complete ? output : null;
+  }
+
+  private parseFrom(
+    from: number,
+    to: number,
+    scope: Scope,
+    ctes: Map<string, string[] | null>,
+    joinConditions: Array<[number, number]>
+  ): void {
+    let i = from;
+    while (i < to) {
+      const word = this.word(i);
+      if (this.isPunct(i, ",") || (word && JOIN_WORDS.has(word))) {
+        i++;
+        continue;
+      }
+
+      if (word === "ON" || word === "USING") {
+        // The condition runs until the next join
+        let end = i + 1;
+        while (end < to) {
+          if (this.isPunct(end, "(")) {
+            end = this.closing[end] + 1;
+            continue;
+          }
+          const next = this.word(end);
+          if (this.isPunct(end, ",") || (next && JOIN_WORDS.has(next))) break;
+          end++;
+        }
+        joinConditions.push([i + 1, end]);
+        i = end;
+        continue;
+      }
+
+      if (this.isPunct(i, "(")) {
+        const close = this.closing[i];
+        if (this.startsQuery(i + 1)) {
+          // Derived table; APPLY / LATERAL subqueries may see the sources before them
+          const columns = this.analyzeQuery(i + 1, close, { sources: [...scope.sources], parent: scope.parent }, ctes);
+          const { alias, end } = this.readAlias(close + 1, to);
+          scope.sources.push({ kind: "derived", name: alias ?? "", columns });
+          i = end;
+        } else {
+          // Parenthesized join
+          this.parseFrom(i + 1, close, scope, ctes, joinConditions);
+          i = close + 1;
+        }
+        continue;
+      }
+
+      if (this.isName(i)) {
+        const chain = this.readNameChain(i);
+        const nameEnd = chain.end;
+        const isFunction = this.isPunct(nameEnd, "(");
+        const afterName = isFunction ? this.closing[nameEnd] + 1 : nameEnd;
+        if (isFunction) {
+          this.scanExpression(nameEnd + 1, this.closing[nameEnd], scope, ctes);
+        }
+        const { alias, end } = this.readAlias(afterName, to);
+
+        const parts = chain.parts;
+        const cte = parts.length === 1 && !isFunction ? ctes.get(parts[0].toLowerCase()) : undefined;
+        if (cte !== undefined) {
+          scope.sources.push({ kind: "derived", name: alias ?? parts[0], columns: cte });
+        } else {
+          const table: SqlTableRef = {
+            table: parts[parts.length - 1],
+            schema: parts.length >= 2 ? parts[parts.length - 2] || undefined : undefined,
+            catalog: parts.length >= 3 ? parts[parts.length - 3] : undefined,
+            alias,
+            isFunction,
+            start: this.tokens[i].start,
+            end: this.tokens[afterName - 1].end,
+            sourceEnd: this.tokens[end - 1].end,
+          };
+          this.result.tables.push(table);
+          scope.sources.push({ kind: "table", table });
+        }
+        i = end;
+        continue;
+      }
+
+      throw new SqlSyntaxError(`Unexpected "${this.tokens[i].value}" in FROM clause at position ${this.tokens[i].start}`);
+    }
+  }
+
+  // Reads an optional [AS] alias plus any WITH (...) table hints
+  private readAlias(index: number, to: number): { alias?: string; end: number } {
+    let i = index;
+    let alias: string | undefined;
+    if (this.word(i) === "AS" && this.isName(i + 1)) {
+      alias = this.tokens[i + 1].value;
+      i += 2;
+    } else if (i < to && this.isName(i) && !this.isKeyword(i)) {
+      alias = this.tokens[i].value;
+      i++;
+    }
+    // Column aliases: AS q (a, b)
+    if (alias && this.isPunct(i, "(") && this.closing[i] < to) i = this.closing[i] + 1;
+    if (this.word(i) === "WITH" && this.isPunct(i + 1, "(")) i = this.closing[i + 1] + 1;
+    return { alias, end: i };
+  }
+
+  private endsOperand(index: number): boolean {
+    const token = this.tokens[index];
+    if (!token) return false;
+    if (token.type === "word") {
+      const word = token.value.toUpperCase();
+      return OPERAND_KEYWORDS.has(word) || !KEYWORDS.has(word);
+    }
+    return token.type !== "operator" && !(token.type === "punct" && token.value !== ")");
+  }
+
+  private resolveQualifier(qualifier: string[], scope: Scope): SqlSource[] {
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      const matches = current.sources.filter((source) => {
+        if (source.kind === "derived") {
+          return qualifier.length === 1 && sameName(source.name, qualifier[0]);
+        }
+        const { table } = source;
+        if (qualifier.length === 1) {
+          return sameName(table.alias, qualifier[0]) || (!table.alias && sameName(table.table, qualifier[0]));
+        }
+        const [catalog, schema, name] = qualifier.length >= 3 ? qualifier.slice(-3) : [undefined, ...qualifier];
+        return (
+          !table.alias &&
+          sameName(table.table, name) &&
+          (!table.schema || sameName(table.schema, schema)) &&
+          (!catalog || !table.catalog || sameName(table.catalog, catalog))
+        );
+      });
+      if (matches.length > 0) return matches;
+    }
+    return [];
+  }
+
+  private resolveColumn(parts: string[], scope: Scope): SqlSource[] {
+    if (parts.length > 1) {
+      return this.resolveQualifier(parts.slice(0, -1), scope);
+    }
+    for (let current: Scope | undefined = scope; current; current = current.parent) {
+      if (current.sources.length > 0) return [...current.sources];
+    }
+    return [];
+  }
+
+  private resolveOuterSources(parts: string[], scope: Scope): SqlSource[] {
+    if (parts.length > 1) return [];
+    let current: Scope | undefined = scope;
+    while (current && current.sources.length === 0) current = current.parent;
+    const outer: SqlSource[] = [];
+    for (current = current?.parent; current; current = current.parent) {
+      outer.push(...current.sources);
+    }
+    return outer;
+  }
+
+  // Records the column references in an expression and analyzes its subqueries
+  private scanExpression(from: number, to: number, scope: Scope, ctes: Map<string, string[] | null>): void {
+    let i = from;
+    let afterAs = false;
+
+    while (i < to) {
+      const token = this.tokens[i];
+
+      if (this.isPunct(i, "(")) {
+        const close = this.closing[i];
+        if (this.startsQuery(i + 1)) {
+          this.analyzeQuery(i + 1, close, scope, ctes);
+        } else {
+          this.scanExpression(i + 1, close, scope, ctes);
+        }
+        i = close + 1;
+        continue;
+      }
+
+      if (!this.isName(i)) {
+        i++;
+        afterAs = false;
+        continue;
+      }
+
+      const chain = this.readNameChain(i);
+      const word = this.word(i);
+
+      // Alias after AS, or the type in CAST(x AS type)
+      if (afterAs) {
+        afterAs = false;
+        i = chain.end;
+        continue;
+      }
+
+      const isCall = this.isPunct(chain.end, "(");
+      if (word && chain.parts.length === 1 && KEYWORDS.has(word) && !(isCall && !PAREN_KEYWORDS.has(word))) {
+        afterAs = word === "AS";
+        i++;
+        continue;
+      }
+
+      if (isCall) {
+        const close = this.closing[chain.end];
+        let argsStart = chain.end + 1;
+        const name = chain.parts[chain.parts.length - 1].toUpperCase();
+        if (KEYWORD_ARG_FUNCTIONS.has(name) && this.tokens[argsStart]?.type === "word") argsStart++;
+        this.scanExpression(argsStart, close, scope, ctes);
+        i = close + 1;
+        continue;
+      }
+
+      // Implicit alias: a name straight after an operand
+      if (i > from && this.endsOperand(i - 1) && !this.isPunct(i - 1, ".")) {
+        i = chain.end;
+        continue;
+      }
+
+      const start = token.start;
+      const end = this.tokens[chain.end - 1].end;
+      if (chain.star) {
+        this.result.stars.push({ qualifier: chain.parts, sources: this.resolveQualifier(chain.parts, scope), inSelectList: false, start, end });
+      } else {
+        const column = chain.parts[chain.parts.length - 1];
+        const qualifier = chain.parts.slice(0, -1);
+        this.result.columns.push({
+          column,
+          qualifier,
+          sources: this.resolveColumn(chain.parts, scope),
+          outerSources: this.resolveOuterSources(chain.parts, scope),
+          start,
+          end,
+        });
+      }
+      i = chain.end;
+    }
+  }
+}
+
+function classify(keyword: string): SqlStatementKind {
+  if (keyword === "SELECT" || keyword === "WITH" || keyword === "(") return "select";
+  if (WRITE_KEYWORDS.has(keyword)) return "write";
+  if (PROCEDURE_KEYWORDS.has(keyword)) return "procedure";
+  return "other";
+}
+
+// The write hidden in a statement that starts like a query: a WITH prefix leading into
+// INSERT/UPDATE/DELETE, or SELECT ... INTO, which creates a table. UPDATE in a
+// FOR UPDATE clause only locks rows, and REPLACE is also a string function.
+function findWriteKeyword(tokens: SqlToken[]): string | undefined {
+  for (let i = 0; i < tokens.length; i++) {
+    if (tokens[i].type !== "word") continue;
+    const word = tokens[i].value.toUpperCase();
+    if (word === "INTO") return "SELECT INTO";
+    if (!WRITE_KEYWORDS.has(word) || word === "REPLACE") continue;
+    if (word === "UPDATE" && tokens[i - 1]?.type === "word" && tokens[i - 1].value.toUpperCase() === "FOR") continue;
+    return word;
+  }
+  return undefined;
+}
+
+// Splits SQL into statements and analyzes each one. Throws SqlSyntaxError when the
+// SQL can't be tokenized or a SELECT can't be followed.
+export function analyzeSql(sql: string): SqlStatement[] {
+  const tokens = tokenizeSql(sql);
+  const statements: SqlStatement[] = [];
+
+  let start = 0;
+  for (let i = 0; i <= tokens.length; i++) {
+    if (i < tokens.length && !(tokens[i].type === "punct" && tokens[i].value === ";")) continue;
+    const statementTokens = tokens.slice(start, i);
+    start = i + 1;
+    if (statementTokens.length === 0) continue;
+
+    let keyword = statementTokens[0].value.toUpperCase();
+    let kind = classify(keyword);
+    const analyzer = new StatementAnalyzer(statementTokens);
+    const writeKeyword = kind === "select" ? findWriteKeyword(statementTokens) : undefined;
+    if (writeKeyword) {
+      kind = "write";
+      keyword = writeKeyword;
+    }
+    if (kind === "select") {
+      analyzer.analyzeQuery(0, statementTokens.length, undefined, new Map());
+    }
+
+    statements.push({
+      kind,
+      keyword,
+      start: statementTokens[0].start,
+      end: statementTokens[statementTokens.length - 1].end,
+      ...analyzer.result,
+    });
+  }
+
+  return statements;
+}
+
+// Brackets a name for use in generated SQL
+export function quoteIdentifier(name: string): string {
+  return `[${name.replace(/]/g, "]]")}]`;
+}
+
+/**
+ * Canonical form of a query for use as a cache key: comments and whitespace are
+ * dropped, keywords upper-cased and identifiers bracketed in lower case. String
+ * literals are kept as written. SQL that can't be tokenized only has its
+ * whitespace collapsed.
+ */
+export function normalizeSql(sql: string): string {
+  let tokens: SqlToken[];
+  try {
+    tokens = tokenizeSql(sql);
+  } catch {
+    return sql.trim().replace(/\s+/g, " ");
+  }
+
+  while (tokens.length > 0 && tokens[tokens.length - 1].value === ";") tokens.pop();
+  return tokens
+    .map((token) => {
+      if (token.type === "word") return token.value.toUpperCase();
+      if (token.type === "identifier") return quoteIdentifier(token.value.toLowerCase());
+      return token.value;
+    })
+    .join(" ");
+}
@@ -0,0 +1,191 @@
+import { describe, expect, it } from "vitest";
+import type { RolePolicy } from "./permissions";
+import { applyRowFilters, enforceSchemaPermissions, QueryPermissionError, validateRowFilter } from "./sqlPermissions";
+
+// Account is partially granted (no Phone), Opportunity fully, Zendesk not at all
+const policy: RolePolicy = {
+  label: "Sales",
+  schemas: {
+    Salesforce: {
+      Account: ["Id", "Name", "Industry"],
+      Opportunity: "*",
+    },
+  },
+  rowFilters: {
+    Salesforce: { Opportunity: "[OwnerEmail] = {{user.email}}" },
+  },
+};
+
+const user = { email: "ann@example.com", role: "sales" };
+
+const enforce = (sql: string) => enforceSchemaPermissions(sql, policy, policy.label);
+
+function forbiddenIn(sql: string): string[] {
+  try {
+    enforce(sql);
+  } catch (err) {
+    if (err instanceof QueryPermissionError) return err.forbidden;
+    throw err;
+  }
+  throw new Error(`Expected the query to be rejected: ${sql}`);
+}
+
+describe("enforceSchemaPermissions", () => {
+  describe("allows", () => {
+    it.each([
+      "SELECT Id, Name FROM [Salesforce1].[Salesforce].[Account]",
+      "SELECT a.Name, o.Amount FROM [Salesforce].[Account] a JOIN [Salesforce].[Opportunity] o ON o.AccountId = a.Id",
+      "SELECT Industry, COUNT(*) AS Total FROM [Salesforce].[Account] GROUP BY Industry HAVING COUNT(*) > 1",
+      "SELECT Name AS Label FROM [Salesforce].[Account] ORDER BY Label DESC",
+      "SELECT Name FROM [Salesforce].[Account] WHERE Id IN (SELECT o.AccountId FROM [Salesforce].[Opportunity] o)",
+      "SELECT Name FROM [Salesforce].[Account] a WHERE EXISTS (SELECT 1 FROM [Salesforce].[Opportunity] o WHERE o.AccountId = a.Id)",
+      "SELECT t.Name FROM (SELECT Name FROM [Salesforce].[Account]) t",
+      "SELECT Name FROM [Salesforce].[Account] UNION SELECT Name FROM [Salesforce].[Opportunity]",
+      "WITH names AS (SELECT Name FROM [Salesforce].[Account]) SELECT Name FROM names",
+      "SELECT CatalogName FROM sys_catalogs",
+    ])("%s", (sql) => {
+      expect(() => enforce(sql)).not.toThrow();
+    });
+  });
+
+  describe("rejects", () => {
+    it("columns the role can't see", () => {
+      expect(forbiddenIn("SELECT Name, Phone FROM [Salesforce].[Account]")).toEqual(["Salesforce.Account.Phone"]);
+    });
+
+    it("tables and schemas the role can't see", () => {
+      expect(forbiddenIn("SELECT Id FROM [Salesforce].[Contact]")).toEqual(["Salesforce.Contact"]);
+      expect(forbiddenIn("SELECT Id FROM [Zendesk1].[Zendesk].[Tickets]")).toEqual(["Zendesk.Tickets"]);
+    });
+
+    it("forbidden columns in WHERE, GROUP BY and HAVING", () => {
+      expect(forbiddenIn("SELECT Name FROM [Salesforce].[Account] WHERE Phone LIKE '555%'")).toEqual(["Salesforce.Account.Phone"]);
+      expect(forbiddenIn("SELECT COUNT(*) FROM [Salesforce].[Account] GROUP BY Phone")).toEqual(["Salesforce.Account.Phone"]);
+      expect(forbiddenIn("SELECT Name FROM [Salesforce].[Account] GROUP BY Name HAVING MAX(Phone) > 'a'")).toEqual([
+        "Salesforce.Account.Phone",
+      ]);
+    });
+
+    it("a select-list alias named after a forbidden column outside a bare ORDER BY item", () => {
+      const from = "FROM [Salesforce1].[Salesforce].[Account]";
+      expect(forbiddenIn(`SELECT 1 AS Phone ${from} HAVING MAX(Phone) > 'a'`)).toEqual(["Salesforce.Account.Phone"]);
+      expect(forbiddenIn(`SELECT Name AS Phone ${from} GROUP BY Phone`)).toEqual(["Salesforce.Account.Phone"]);
+      expect(forbiddenIn(`SELECT Name AS Phone ${from} WHERE Phone = '1'`)).toEqual(["Salesforce.Account.Phone"]);
+      expect(forbiddenIn(`SELECT Name AS Phone ${from} ORDER BY CASE WHEN Phone > 'a' THEN 1 END`)).toEqual([
+        "Salesforce.Account.Phone",
+      ]);
+      expect(() => enforce(`SELECT Name AS Phone ${from} ORDER BY Phone DESC`)).not.toThrow();
+    });
+
+    it("forbidden columns in subqueries, derived tables and UNION branches", () => {
+      expect(
+        forbiddenIn("SELECT Name FROM [Salesforce].[Account] WHERE Id IN (SELECT Id FROM [Salesforce].[Account] WHERE Phone IS NULL)")
+      ).toEqual(["Salesforce.Account.Phone"]);
+      expect(forbiddenIn("SELECT t.p FROM (SELECT Phone AS p FROM [Salesforce].[Account]) t")).toEqual([
+        "Salesforce.Account.Phone",
+      ]);
+      expect(
+        forbiddenIn("SELECT Name FROM [Salesforce].[Opportunity] UNION SELECT Phone FROM [Salesforce].[Account]")
+      ).toEqual(["Salesforce.Account.Phone"]);
+    });
+
+    it("unqualified columns in a correlated subquery that an outer table doesn't grant", () => {
+      // Opportunity has no Phone, so SQL binds it to the outer Account
+      expect(
+        forbiddenIn(
+          "SELECT Name FROM [Salesforce].[Account] a WHERE EXISTS (SELECT 1 FROM [Salesforce].[Opportunity] o WHERE o.AccountId = a.Id AND Phone = '1')"
+        )
+      ).toEqual(["Phone (qualify the column with its table alias)"]);
+      expect(
+        forbiddenIn("SELECT Name FROM [Salesforce].[Account] WHERE Id IN (SELECT AccountId FROM [Salesforce].[Opportunity])")
+      ).toEqual(["AccountId (qualify the column with its table alias)"]);
+    });
+
+    it("ambiguous unqualified columns in joins", () => {
+      expect(
+        forbiddenIn("SELECT Phone FROM [Salesforce].[Account] a JOIN [Salesforce].[Opportunity] o ON o.AccountId = a.Id")
+      ).toEqual(["Phone (qualify the column with its table alias)"]);
+    });
+
+    it("writes", () => {
+      expect(forbiddenIn("UPDATE [Salesforce].[Account] SET Name = 'x'")).toEqual(["UPDATE"]);
+      expect(forbiddenIn("SELECT Id FROM [Salesforce].[Account]; DELETE FROM [Salesforce].[Account]")).toEqual(["DELETE"]);
+    });
+
+    it("unqualified tables and table functions", () => {
+      expect(forbiddenIn("SELECT Id FROM Account")).toEqual(["Account (qualify the table with its schema)"]);
+    });
+
+    it("a star outside the select list over a partially granted table", () => {
+      expect(forbiddenIn("SELECT COUNT(a.*) FROM [Salesforce].[Account] a")).toEqual(["a.* (list the columns instead)"]);
+    });
+
+    it("SQL it can't analyze, such as {fn} escapes", () => {
+      expect(() => enforce("SELECT {fn UCASE(Phone)} FROM [Salesforce].[Account]")).toThrow(QueryPermissionError);
+      expect(() => enforce("SELECT Name FROM [Salesforce].[Account] WHERE {fn LENGTH(Phone)} > 3")).toThrow(
+        QueryPermissionError
+      );
+    });
+  });
+
+  describe("rewrites", () => {
+    it("expands * over a partially granted table to the allowed columns", () => {
+      expect(enforce("SELECT * FROM [Salesforce].[Account]")).toBe("SELECT [Id], [Name], [Industry] FROM [Salesforce].[Account]");
+    });
+
+    it("expands a qualified star and leaves fully granted tables alone", () => {
+      expect(
+        enforce("SELECT a.*, o.* FROM [Salesforce].[Account] a JOIN [Salesforce].[Opportunity] o ON o.AccountId = a.Id")
+      ).toBe(
+        "SELECT [a].[Id], [a].[Name], [a].[Industry], o.* FROM [Salesforce].[Account] a JOIN [Salesforce].[Opportunity] o ON o.AccountId = a.Id"
+      );
+    });
+
+    it("expands a star inside a derived table", () => {
+      expect(enforce("SELECT t.Name FROM (SELECT * FROM [Salesforce].[Account]) t")).toBe(
+        "SELECT t.Name FROM (SELECT [Id], [Name], [Industry] FROM [Salesforce].[Account]) t"
+      );
+    });
+  });
+});
+
+describe("applyRowFilters", () => {
+  it("replaces filtered tables with a filtered subquery under the same alias", () => {
+    const result = applyRowFilters("SELECT o.Amount FROM [Salesforce].[Opportunity] o WHERE o.Amount > 0", policy, user);
+    expect(result.sql).toBe(
+      "SELECT o.Amount FROM (SELECT * FROM [Salesforce].[Opportunity] WHERE [OwnerEmail] = 'ann@example.com') [o] WHERE o.Amount > 0"
+    );
+    expect(result.rowFilters).toEqual(["Salesforce.Opportunity: [OwnerEmail] = 'ann@example.com'"]);
+  });
+
+  it("filters tables inside subqueries and UNION branches", () => {
+    const { sql } = applyRowFilters(
+      "SELECT Name FROM [Salesforce].[Account] UNION SELECT Name FROM [Salesforce].[Opportunity]",
+      policy,
+      user
+    );
+    expect(sql).toContain("(SELECT * FROM [Salesforce].[Opportunity] WHERE [OwnerEmail] = 'ann@example.com') [Opportunity]");
+  });
+
+  it("quotes user values as SQL literals", () => {
+    const { sql } = applyRowFilters("SELECT Amount FROM [Salesforce].[Opportunity]", policy, { ...user, email: "o'neil@example.com" });
+    expect(sql).toContain("[OwnerEmail] = 'o''neil@example.com'");
+  });
+
+  it("leaves tables without a filter unchanged", () => {
+    const sql = "SELECT Name FROM [Salesforce].[Account]";
+    expect(applyRowFilters(sql, policy, user)).toEqual({ sql, rowFilters: [] });
+  });
+});
+
+describe("validateRowFilter", () => {
+  it("accepts a condition with user placeholders", () => {
+    expect(validateRowFilter("[OwnerEmail] = {{user.email}}")).toBeNull();
+  });
+
+  it("rejects comments, statement separators and empty conditions", () => {
+    expect(validateRowFilter("1 = 1 -- all")).not.toBeNull();
+    expect(validateRowFilter("1 = 1; DROP TABLE x")).not.toBeNull();
+    expect(validateRowFilter(" ")).not.toBeNull();
+  });
+});
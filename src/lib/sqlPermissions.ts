@@ -0,0 +1,225 @@
+// Checks SQL against a role's schema permissions before it reaches CData.
+// Queries that touch tables or columns outside the policy are rejected; a "*" over
+// a partially granted table is rewritten to the columns the role may see, and
+// tables with a row filter are replaced by a filtered subquery.
+
+import { getAllowedColumns, getRowFilter, getTableAccess, isColumnAllowed, type RolePolicy } from "./permissions";
+import { analyzeSql, quoteIdentifier, SqlSyntaxError, type SqlSource, type SqlStatement, type SqlTableRef } from "./sql";
+
+// User attributes available to row filters as {{user.email}}, {{user.name}}, ...
+export interface RowFilterUser {
+  email: string;
+  role: string;
+  name?: string;
+  tenant?: string;
+}
+
+const USER_PLACEHOLDER = /\{\{\s*user\.(email|role|name|tenant)\s*\}\}/g;
+
+export class QueryPermissionError extends Error {
+  // The disallowed references, e.g. "Salesforce.Account.Phone"
+  readonly forbidden: string[];
+
+  constructor(message: string, forbidden: string[] = []) {
+    super(message);
+    this.name = "QueryPermissionError";
+    this.forbidden = forbidden;
+  }
+}
+
+// CData's metadata tables (sys_catalogs, sys_tables, ...) are always readable:
+// the schema tree is built from them and then filtered
+function isSystemTable(table: SqlTableRef): boolean {
+  return !table.isFunction && /^sys_/i.test(table.table);
+}
+
+function tableName(table: SqlTableRef): string {
+  return table.schema ? `${table.schema}.${table.table}` : table.table;
+}
+
+// Name used to qualify a source's columns in generated SQL
+function sourceQualifier(source: SqlSource): string {
+  if (source.kind === "derived") return quoteIdentifier(source.name);
+  return quoteIdentifier(source.table.alias ?? source.table.table);
+}
+
+function analyzeForPermissions(sql: string): SqlStatement[] {
+  try {
+    return analyzeSql(sql);
+  } catch (err) {
+    if (err instanceof SqlSyntaxError) {
+      throw new QueryPermissionError(`Could not check this query against your permissions: ${err.message}`);
+    }
+    throw err;
+  }
+}
+
+function applyEdits(sql: string, edits: Array<{ start: number; end: number; text: string }>): string {
+  // Apply from the end so earlier positions stay valid
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), sql);
+}
+
+/**
+ * Returns the SQL to run for a user with the given policy: unchanged, or with "*"
+ * expanded to the allowed columns. Throws QueryPermissionError listing every
+ * forbidden reference, or when the SQL can't be analyzed.
+ */
+export function enforceSchemaPermissions(sql: string, policy: RolePolicy | undefined, roleLabel: string): string {
+  const statements = analyzeForPermissions(sql);
+
+  const notAllowed = `Your role (${roleLabel}) is not allowed to`;
+
+  const writes = statements.filter((statement) => statement.kind !== "select");
+  if (writes.length > 0) {
+    const keywords = Array.from(new Set(writes.map((statement) => statement.keyword)));
+    throw new QueryPermissionError(`${notAllowed} run ${keywords.join(", ")} statements. Only SELECT queries are permitted.`, keywords);
+  }
+
+  const forbidden = new Set<string>();
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  // Tables
+  const isTableVisible = (table: SqlTableRef) =>
+    isSystemTable(table) || (!!table.schema && getTableAccess(policy, table.schema, table.table) !== "none");
+
+  for (const statement of statements) {
+    for (const table of statement.tables) {
+      if (isSystemTable(table)) continue;
+      if (table.isFunction) {
+        forbidden.add(`${tableName(table)}()`);
+      } else if (!table.schema) {
+        forbidden.add(`${table.table} (qualify the table with its schema)`);
+      } else if (!isTableVisible(table)) {
+        forbidden.add(tableName(table));
+      }
+    }
+
+    // Columns: every table a column could come from must grant it
+    const deniedBy = (sources: SqlSource[], column: string) =>
+      sources
+        .flatMap((source) => (source.kind === "table" ? [source.table] : []))
+        .filter((table) => isTableVisible(table) && !isSystemTable(table) && !isColumnAllowed(policy, table.schema!, table.table, column));
+
+    for (const ref of statement.columns) {
+      const label = [...ref.qualifier, ref.column].join(".");
+      if (ref.sources.length === 0) {
+        forbidden.add(`${label} (unknown table or alias "${ref.qualifier.join(".")}")`);
+        continue;
+      }
+
+      // A derived table that exposes the column takes it; its own query was checked
+      const derived = ref.sources.find(
+        (source) => source.kind === "derived" && (source.columns === null || source.columns.some((name) => name.toLowerCase() === ref.column.toLowerCase()))
+      );
+      const denied = derived && ref.sources.length === 1 ? [] : deniedBy(ref.sources, ref.column);
+      if (denied.length > 0) {
+        if (ref.sources.length > 1) {
+          forbidden.add(`${ref.column} (qualify the column with its table alias)`);
+        } else {
+          forbidden.add(`${tableName(denied[0])}.${ref.column}`);
+        }
+        continue;
+      }
+
+      // In a correlated subquery SQL binds an unqualified column to an outer table
+      // whenever the subquery's own tables lack it, which can't be ruled out here
+      if (deniedBy(ref.outerSources, ref.column).length > 0) {
+        forbidden.add(`${ref.column} (qualify the column with its table alias)`);
+      }
+    }
+
+    // Stars over partially granted tables are expanded to the allowed columns
+    for (const star of statement.stars) {
+      if (star.sources.length === 0) {
+        forbidden.add(`${star.qualifier.join(".")}.* (unknown table or alias)`);
+        continue;
+      }
+
+      const partial = star.sources.filter(
+        (source) => source.kind === "table" && isTableVisible(source.table) && !isSystemTable(source.table) && getTableAccess(policy, source.table.schema!, source.table.table) === "partial"
+      );
+      if (partial.length === 0) continue;
+      if (!star.inSelectList) {
+        forbidden.add(`${[...star.qualifier, "*"].join(".")} (list the columns instead)`);
+        continue;
+      }
+
+      const qualify = star.qualifier.length > 0 || star.sources.length > 1;
+      const expansion = star.sources.map((source) => {
+        const prefix = star.qualifier.length > 0 ? star.qualifier.map(quoteIdentifier).join(".") : sourceQualifier(source);
+        if (source.kind === "table" && partial.includes(source)) {
+          const columns = getAllowedColumns(policy, source.table.schema!, source.table.table) as string[];
+          return columns.map((column) => (qualify ? `${prefix}.${quoteIdentifier(column)}` : quoteIdentifier(column))).join(", ");
+        }
+        return qualify ? `${prefix}.*` : "*";
+      });
+      edits.push({ start: star.start, end: star.end, text: expansion.join(", ") });
+    }
+  }
+
+  if (forbidden.size > 0) {
+    const list = Array.from(forbidden);
+    throw new QueryPermissionError(`${notAllowed} query: ${list.join(", ")}`, list);
+  }
+
+  return applyEdits(sql, edits);
+}
+
+function toSqlLiteral(value: string | undefined): string {
+  return value === undefined ? "NULL" : `'${value.replace(/'/g, "''")}'`;
+}
+
+// Substitutes the user placeholders in a row filter with SQL literals
+export function expandRowFilter(predicate: string, user: RowFilterUser): string {
+  return predicate.replace(USER_PLACEHOLDER, (_, field: keyof RowFilterUser) => toSqlLiteral(user[field]));
+}
+
+// Returns a description of the problem, or null when the predicate can be injected safely
+export function validateRowFilter(predicate: string): string | null {
+  if (!predicate.trim()) return "Enter a SQL condition";
+  const expanded = predicate.replace(USER_PLACEHOLDER, "NULL");
+  try {
+    // Comments or a ";" could escape the subquery the predicate is placed in
+    const withoutStrings = expanded.replace(/'(?:[^']|'')*'/g, "''");
+    if (/--|\/\*|;/.test(withoutStrings)) {
+      return "Comments and \";\" are not allowed in a row filter";
+    }
+    const statements = analyzeSql(`SELECT 1 FROM [t] WHERE ${expanded}`);
+    if (statements.length !== 1) return "Enter a single SQL condition";
+  } catch (err) {
+    return err instanceof Error ? err.message : String(err);
+  }
+  return null;
+}
+
+/**
+ * Replaces every table that has a row filter in the policy with
+ * (SELECT * FROM table WHERE predicate) under the table's alias, so the filter
+ * also holds inside joins and subqueries. Returns the SQL and the filters applied.
+ */
+export function applyRowFilters(
+  sql: string,
+  policy: RolePolicy | undefined,
+  user: RowFilterUser
+): { sql: string; rowFilters: string[] } {
+  const rowFilters = new Set<string>();
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+
+  for (const statement of analyzeForPermissions(sql)) {
+    for (const table of statement.tables) {
+      if (!table.schema || table.isFunction) continue;
+      const predicate = getRowFilter(policy, table.schema, table.table);
+      if (!predicate) continue;
+
+      const expanded = expandRowFilter(predicate, user);
+      const name = sql.slice(table.start, table.end);
+      const alias = quoteIdentifier(table.alias ?? table.table);
+      edits.push({ start: table.start, end: table.sourceEnd, text: `(SELECT * FROM ${name} WHERE ${expanded}) ${alias}` });
+      rowFilters.add(`${tableName(table)}: ${expanded}`);
+    }
+  }
+
+  return { sql: applyEdits(sql, edits), rowFilters: Array.from(rowFilters) };
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { readSSEEvents } from "./sse";
+
+function streamOf(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function readAll(chunks: string[]): Promise<unknown[]> {
+  const events: unknown[] = [];
+  for await (const event of readSSEEvents(streamOf(chunks))) events.push(event);
+  return events;
+}
+
+describe("readSSEEvents", () => {
+  it("parses events split across chunks", async () => {
+    expect(await readAll(['data: {"a":', "1}\n", '\ndata: {"b":2}\n\n'])).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it("joins multi-line data and skips [DONE] and malformed events", async () => {
+    expect(await readAll(['event: x\ndata: {"a":\ndata: 1}\n\n', "data: nope\n\n", "data: [DONE]\n\n"])).toEqual([
+      { a: 1 },
+    ]);
+  });
+
+  it("handles CRLF line endings, including a CRLF split across chunks", async () => {
+    expect(await readAll(['data: {"a":1}\r', '\n\r\ndata: {"b":2}\r\n\r\n'])).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(await readAll(['data: {"a":1}\r\n\r', '\ndata: {"b":2}\r\n\r\n'])).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it("handles CR-only line endings", async () => {
+    expect(await readAll(['data: {"a":1}\r\r', 'data: {"b":2}\r\r'])).toEqual([{ a: 1 }, { b: 2 }]);
+  });
+
+  it("keeps a final event that has no trailing blank line", async () => {
+    expect(await readAll(['data: {"a":1}\n\n', 'data: {"b":2}'])).toEqual([{ a: 1 }, { b: 2 }]);
+    expect(await readAll(['data: {"a":1}\r'])).toEqual([{ a: 1 }]);
+  });
+});
@@ -0,0 +1,74 @@
+// Server-sent events, as streamed by the LLM providers and the CData MCP server
+
+// The data payload of one raw event, or undefined when it carries none
+function getEventData(rawEvent: string): string | undefined {
+  const data = rawEvent
+    .split("\n")
+    .filter((line) => line.startsWith("data:"))
+    .map((line) => line.slice(5).trimStart())
+    .join("\n");
+
+  // OpenAI-style streams end with a [DONE] sentinel
+  return data && data !== "[DONE]" ? data : undefined;
+}
+
+function* parseEvents<T>(rawEvents: string[]): Generator<T> {
+  for (const rawEvent of rawEvents) {
+    const data = getEventData(rawEvent);
+    if (data === undefined) continue;
+    try {
+      yield JSON.parse(data);
+    } catch {
+      // Skip malformed events
+    }
+  }
+}
+
+// Parse an SSE body into its JSON data payloads as they arrive
+export async function* readSSEEvents<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  // A chunk ending in "\r" may be half of a "\r\n" that finishes in the next chunk
+  let pendingCR = "";
+
+  // Normalize CRLF and CR line endings so servers that use them still split on blank lines
+  const append = (text: string) => {
+    buffer += text.replace(/\r\n?/g, "\n");
+  };
+
+  // Events are separated by a blank line
+  const takeEvents = (): string[] => {
+    const rawEvents: string[] = [];
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      rawEvents.push(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf("\n\n");
+    }
+    return rawEvents;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      let text = pendingCR + decoder.decode(value, { stream: true });
+      pendingCR = text.endsWith("\r") ? "\r" : "";
+      if (pendingCR) text = text.slice(0, -1);
+      append(text);
+
+      yield* parseEvents<T>(takeEvents());
+    }
+
+    // The stream can end without the blank line after its last event
+    append(pendingCR + decoder.decode());
+    const rawEvents = takeEvents();
+    if (buffer.trim()) rawEvents.push(buffer);
+    buffer = "";
+    yield* parseEvents<T>(rawEvents);
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { MCPTool } from "./cdata";
+import { classifySql, classifyToolCall, getToolSql, getWriteActions } from "./writeProtection";
+
+describe("getWriteActions", () => {
+  it.each([
+    "SELECT Name FROM [Salesforce].[Account]",
+    "WITH t AS (SELECT Id FROM [Salesforce].[Account]) SELECT Id FROM t",
+    "SELECT REPLACE(Name, 'a', 'b') FROM [Salesforce].[Account]",
+    "SELECT Name FROM [Salesforce].[Account] WHERE Name = 'UPDATE'",
+    "SELECT Name FROM [Salesforce].[Account] FOR UPDATE",
+    "SELECT Name FROM [Salesforce].[Account] FOR UPDATE OF Name",
+  ])("treats %s as a read", (sql) => {
+    expect(getWriteActions(sql)).toEqual([]);
+  });
+
+  it("reports the keyword of each write statement", () => {
+    expect(getWriteActions("UPDATE [Salesforce].[Account] SET Name = 'x'")).toEqual(["UPDATE"]);
+    expect(getWriteActions("SELECT 1; DELETE FROM [Salesforce].[Account]; DROP TABLE [Salesforce].[Account]")).toEqual([
+      "DELETE",
+      "DROP",
+    ]);
+  });
+
+  it("finds writes behind a WITH prefix", () => {
+    expect(
+      getWriteActions("WITH t AS (SELECT Id FROM [Salesforce].[Account]) DELETE FROM [Salesforce].[Account] WHERE Id IN (SELECT Id FROM t)")
+    ).toEqual(["DELETE"]);
+  });
+
+  it("treats SELECT ... INTO as a write", () => {
+    expect(getWriteActions("SELECT Name INTO [Salesforce].[Copy] FROM [Salesforce].[Account]")).toEqual(["SELECT INTO"]);
+    expect(getWriteActions("WITH t AS (SELECT Name FROM [Salesforce].[Account]) SELECT Name INTO [Salesforce].[Copy] FROM t")).toEqual([
+      "SELECT INTO",
+    ]);
+  });
+
+  it("treats procedures and SQL it can't analyze as writes", () => {
+    expect(getWriteActions("EXEC [Salesforce].[DoSomething]")).toEqual(["EXEC"]);
+    expect(getWriteActions("SELECT 'unterminated")).toEqual(["UNRECOGNIZED SQL"]);
+  });
+});
+
+describe("classifySql", () => {
+  it("returns null for reads and the statement for writes", () => {
+    expect(classifySql("SELECT 1")).toBeNull();
+    expect(classifySql("INSERT INTO [Salesforce].[Account] (Name) VALUES ('x')")).toEqual({
+      source: "sql",
+      actions: ["INSERT"],
+      statement: "INSERT INTO [Salesforce].[Account] (Name) VALUES ('x')",
+    });
+  });
+});
+
+describe("getToolSql", () => {
+  it("returns the query argument of SQL tools only", () => {
+    expect(getToolSql("queryData", { query: "SELECT 1" })).toBe("SELECT 1");
+    expect(getToolSql("execData", { query: "DELETE FROM t" })).toBe("DELETE FROM t");
+    expect(getToolSql("getTables", { query: "SELECT 1" })).toBeUndefined();
+    expect(getToolSql("queryData", { query: 1 })).toBeUndefined();
+  });
+});
+
+describe("classifyToolCall", () => {
+  const tool = (name: string, readOnlyHint?: boolean): MCPTool => ({
+    name,
+    annotations: readOnlyHint === undefined ? undefined : { readOnlyHint },
+  });
+
+  it("judges SQL tools by their statement", () => {
+    expect(classifyToolCall(tool("queryData"), "queryData", { query: "SELECT 1" })).toBeNull();
+    expect(classifyToolCall(tool("execData", true), "execData", { query: "DELETE FROM [Salesforce].[Account]" })).toEqual({
+      source: "execData",
+      actions: ["DELETE"],
+      statement: "DELETE FROM [Salesforce].[Account]",
+    });
+  });
+
+  it("trusts readOnlyHint, then read-style names", () => {
+    expect(classifyToolCall(tool("summarize", true), "summarize", {})).toBeNull();
+    expect(classifyToolCall(tool("getCatalogs"), "getCatalogs", {})).toBeNull();
+    expect(classifyToolCall(tool("list_tables"), "list_tables", {})).toBeNull();
+  });
+
+  it("treats other and unknown tools as writes", () => {
+    expect(classifyToolCall(tool("createRecord"), "createRecord", { name: "x" })).toEqual({
+      source: "createRecord",
+      actions: ["createRecord"],
+      statement: JSON.stringify({ name: "x" }, null, 2),
+    });
+    expect(classifyToolCall(tool("getter", false), "getter", {})).not.toBeNull();
+    expect(classifyToolCall(undefined, "mystery", {})).not.toBeNull();
+  });
+
+  it("judges namespaced tools by their name on their own server", () => {
+    expect(classifyToolCall(tool("docs__searchPages"), "docs__searchPages", {})).toBeNull();
+    expect(classifyToolCall(tool("docs__deletePage"), "docs__deletePage", {})).not.toBeNull();
+  });
+});
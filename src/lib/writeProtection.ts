@@ -0,0 +1,77 @@
+// Read-only mode: classifies SQL statements and MCP tool calls as reads or writes.
+// Non-admins can never write; admins confirm each write before it runs.
+
+import type { MCPTool } from "./cdata";
+import { analyzeSql } from "./sql";
+import { getBaseToolName } from "./mcpServers";
+import { isReadOnlyTool } from "../../server/toolAccess";
+
+// A write about to run, with the exact statement shown for confirmation
+export interface WriteOperation {
+  // "sql" for queryData, otherwise the MCP tool name
+  source: string;
+  // Leading keywords of the write statements, e.g. ["UPDATE"], or the tool name
+  actions: string[];
+  statement: string;
+}
+
+export class WriteBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WriteBlockedError";
+  }
+}
+
+export class WriteDeclinedError extends Error {
+  constructor() {
+    super("The write was cancelled: it was not approved.");
+    this.name = "WriteDeclinedError";
+  }
+}
+
+// MCP tools whose "query" argument is SQL, classified by the statement itself
+const SQL_TOOLS = new Set(["queryData", "execData"]);
+
+// The SQL a tool call runs, or undefined when the tool doesn't take SQL
+export function getToolSql(name: string, args: Record<string, unknown>): string | undefined {
+  return SQL_TOOLS.has(name) && typeof args.query === "string" ? args.query : undefined;
+}
+
+// Returns the write keywords in the SQL, or an empty list when every statement only
+// reads. SQL that can't be analyzed counts as a write.
+export function getWriteActions(sql: string): string[] {
+  try {
+    const statements = analyzeSql(sql);
+    return Array.from(new Set(statements.filter((s) => s.kind !== "select").map((s) => s.keyword)));
+  } catch {
+    return ["UNRECOGNIZED SQL"];
+  }
+}
+
+export function classifySql(sql: string): WriteOperation | null {
+  const actions = getWriteActions(sql);
+  return actions.length > 0 ? { source: "sql", actions, statement: sql } : null;
+}
+
+/**
+ * Returns the write a tool call would perform, or null for reads. SQL tools are judged
+ * by their statement; other tools by the server's readOnlyHint annotation, then by name.
+ * Unknown tools are treated as writes.
+ */
+export function classifyToolCall(
+  tool: MCPTool | undefined,
+  name: string,
+  args: Record<string, unknown>
+): WriteOperation | null {
+  const sql = getToolSql(name, args);
+  if (sql !== undefined) {
+    const actions = getWriteActions(sql);
+    return actions.length > 0 ? { source: name, actions, statement: sql } : null;
+  }
+
+  // Tools from other MCP servers are judged by their name on that server
+  if (isReadOnlyTool(getBaseToolName(name), tool?.annotations)) {
+    return null;
+  }
+  return { source: name, actions: [name], statement: JSON.stringify(args, null, 2) };
+}
@@ -0,0 +1,375 @@
+import { Fragment, useState, useEffect, useCallback } from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeft,
+  ScrollText,
+  Loader2,
+  AlertCircle,
+  ChevronRight,
+  ChevronDown,
+  Download,
+  RefreshCw,
+  Search,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { PageHeader } from "@/components/shared/PageHeader";
+import {
+  AUDIT_KINDS,
+  AUDIT_ORIGINS,
+  fetchAuditLog,
+  getAuditExportURL,
+  type AuditFilter,
+  type AuditRecord,
+} from "@/lib/audit";
+
+const ALL = "all";
+
+// Form state; dates are datetime-local values in the browser's time zone
+interface FilterForm {
+  user: string;
+  origin: string;
+  kind: string;
+  status: string;
+  q: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FORM: FilterForm = { user: "", origin: ALL, kind: ALL, status: ALL, q: "", from: "", to: "" };
+
+function toFilter(form: FilterForm): AuditFilter {
+  const toISO = (value: string) => (value ? new Date(value).toISOString() : undefined);
+  return {
+    user: form.user.trim() || undefined,
+    origin: form.origin === ALL ? undefined : (form.origin as AuditFilter["origin"]),
+    kind: form.kind === ALL ? undefined : (form.kind as AuditFilter["kind"]),
+    status: form.status === ALL ? undefined : (form.status as AuditFilter["status"]),
+    q: form.q.trim() || undefined,
+    from: toISO(form.from),
+    to: toISO(form.to),
+  };
+}
+
+function summarize(record: AuditRecord): string {
+  if (record.sql) return record.sql.replace(/\s+/g, " ").trim();
+  return record.tool ?? "";
+}
+
+function DetailBlock({ label, value }: { label: string; value?: string }) {
+  if (!value) return null;
+  return (
+    <div className="space-y-1">
+      <p className="text-xs font-medium text-muted-foreground">{label}</p>
+      <pre className="max-h-[240px] overflow-auto rounded-md border border-border bg-muted/30 p-3 text-xs">
+        <code className="whitespace-pre-wrap break-all">{value}</code>
+      </pre>
+    </div>
+  );
+}
+
+// Admin view of every query and tool call, with filters and CSV/JSON export
+export default function AuditLog() {
+  const [form, setForm] = useState<FilterForm>(EMPTY_FORM);
+  const [filter, setFilter] = useState<AuditFilter>({});
+  const [records, setRecords] = useState<AuditRecord[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const result = await fetchAuditLog(filter);
+      setRecords(result.records);
+      setTotal(result.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load the audit log");
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const updateForm = (patch: Partial<FilterForm>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const handleApply = (e: React.FormEvent) => {
+    e.preventDefault();
+    setFilter(toFilter(form));
+  };
+
+  const handleReset = () => {
+    setForm(EMPTY_FORM);
+    setFilter({});
+  };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6 animate-fade-in">
+      <PageHeader
+        title="Audit Log"
+        description="Every query and tool call made through the dashboard, Data Explorer and AI Advisor."
+        icon={ScrollText}
+        actions={
+          <>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/settings">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Settings
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={load} disabled={isLoading}>
+              <RefreshCw className={`h-4 w-4 mr-2 ${isLoading ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={getAuditExportURL(filter, "csv")} download>
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href={getAuditExportURL(filter, "json")} download>
+                <Download className="h-4 w-4 mr-2" />
+                JSON
+              </a>
+            </Button>
+          </>
+        }
+      />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Filters</CardTitle>
+          <CardDescription>Exports include every record matching the applied filters.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleApply} className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="audit-user">User</Label>
+              <Input
+                id="audit-user"
+                placeholder="name@company.com"
+                value={form.user}
+                onChange={(e) => updateForm({ user: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Origin</Label>
+              <Select value={form.origin} onValueChange={(origin) => updateForm({ origin })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All origins</SelectItem>
+                  {AUDIT_ORIGINS.map((origin) => (
+                    <SelectItem key={origin} value={origin} className="capitalize">
+                      {origin}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Kind</Label>
+              <Select value={form.kind} onValueChange={(kind) => updateForm({ kind })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All kinds</SelectItem>
+                  {AUDIT_KINDS.map((kind) => (
+                    <SelectItem key={kind} value={kind} className="capitalize">
+                      {kind}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={form.status} onValueChange={(status) => updateForm({ status })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Any status</SelectItem>
+                  <SelectItem value="ok">Succeeded</SelectItem>
+                  <SelectItem value="error">Failed</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="audit-search">Search</Label>
+              <Input
+                id="audit-search"
+                placeholder="Text in the SQL, tool, arguments or error"
+                value={form.q}
+                onChange={(e) => updateForm({ q: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="datetime-local"
+                value={form.from}
+                onChange={(e) => updateForm({ from: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="datetime-local"
+                value={form.to}
+                onChange={(e) => updateForm({ to: e.target.value })}
+              />
+            </div>
+            <div className="flex gap-2 md:col-span-4 justify-end">
+              <Button type="button" variant="outline" size="sm" onClick={handleReset}>
+                Reset
+              </Button>
+              <Button type="submit" size="sm">
+                <Search className="h-4 w-4 mr-2" />
+                Apply
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {error}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Records</CardTitle>
+          <CardDescription>
+            {total > records.length
+              ? `Showing the latest ${records.length} of ${total} matching records. Export to get them all.`
+              : `${total} matching record${total === 1 ? "" : "s"}, newest first.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading && records.length === 0 ? (
+            <div className="flex items-center justify-center py-16">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : records.length === 0 ? (
+            <p className="py-8 text-center text-sm text-muted-foreground">No records match these filters.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Origin</TableHead>
+                  <TableHead>Call</TableHead>
+                  <TableHead className="text-right">Duration</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {records.map((record) => {
+                  const isExpanded = expandedId === record.id;
+                  return (
+                    <Fragment key={record.id}>
+                      <TableRow
+                        className="cursor-pointer"
+                        onClick={() => setExpandedId(isExpanded ? null : record.id)}
+                      >
+                        <TableCell>
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-xs">
+                          {new Date(record.timestamp).toLocaleString()}
+                        </TableCell>
+                        <TableCell className="text-xs">
+                          <div>{record.user}</div>
+                          <div className="text-muted-foreground">{record.role}</div>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline" className="capitalize">{record.origin}</Badge>
+                        </TableCell>
+                        <TableCell className="max-w-[360px]">
+                          <code className="block truncate text-xs">{summarize(record)}</code>
+                        </TableCell>
+                        <TableCell className="text-right text-xs">{record.durationMs} ms</TableCell>
+                        <TableCell className="text-right text-xs">{record.rowCount ?? "—"}</TableCell>
+                        <TableCell>
+                          {record.error ? (
+                            <Badge variant="outline" className="text-destructive border-destructive">Failed</Badge>
+                          ) : (
+                            <Badge variant="outline" className="text-green-600 border-green-600">OK</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="hover:bg-transparent">
+                          <TableCell />
+                          <TableCell colSpan={7} className="space-y-3">
+                            {record.tool && (
+                              <p className="text-xs">
+                                <span className="text-muted-foreground">{record.kind === "tool" ? "Tool" : "Operation"}:</span>{" "}
+                                <code>{record.tool}</code>
+                              </p>
+                            )}
+                            {record.cache && (
+                              <p className="text-xs">
+                                <span className="text-muted-foreground">Query cache:</span>{" "}
+                                {record.cache === "hit" ? "hit (CData was not called)" : record.cache}
+                              </p>
+                            )}
+                            <DetailBlock label="SQL" value={record.sql} />
+                            <DetailBlock label="Executed SQL (after permissions and row filters)" value={record.executedSql} />
+                            <DetailBlock label="Arguments" value={record.args} />
+                            <DetailBlock label="Error" value={record.error} />
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
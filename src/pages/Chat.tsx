@@ -1,49 +1,47 @@
 import { useState, useRef, useEffect } from "react";
-import { Send, Sparkles, BarChart3, TrendingUp, Users, AlertCircle, Wrench, Brain, Loader2, CheckCircle2, XCircle, ChevronDown, ChevronUp, Bookmark, Code, Download, ListChecks, Save } from "lucide-react";
+import { Send, Square, Ban, Sparkles, History, BarChart3, TrendingUp, Users, AlertCircle, Wrench, Brain, Loader2, CheckCircle2, XCircle, ChevronDown, ChevronUp, Bookmark, Code, Download, ListChecks, Save, Pin } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useCData } from "@/contexts/CDataContext";
 import { useSavedPrompts } from "@/contexts/SavedPromptsContext";
 import { useSavedQueries } from "@/contexts/SavedQueriesContext";
+import { useDashboardData } from "@/contexts/DashboardDataContext";
+import {
+  useConversations,
+  type ChatMessage,
+  type ExtractedQuery,
+  type ProcessingStep,
+} from "@/contexts/ConversationsContext";
 import { chat, hasLLMConfig, InterimUpdate, LLMDebugLogs } from "@/lib/llm";
+import type { MCPProgress } from "@/lib/cdata";
+import { getProviderConfig, getProviderConfigHint } from "@/lib/llmProviders";
 import { SavedPromptsPanel } from "@/components/chat/SavedPromptsPanel";
+import { ConversationHistoryPanel } from "@/components/chat/ConversationHistoryPanel";
+import { ToolResultsView } from "@/components/chat/ToolResultsView";
+import { PinWidgetDialog } from "@/components/dashboard/PinWidgetDialog";
 import {
   Collapsible,
   CollapsibleContent,
   CollapsibleTrigger,
 } from "@/components/ui/collapsible";
 
-interface ProcessingStep {
+interface ThinkingStep {
   id: string;
-  type: "thinking" | "tool_start" | "tool_complete" | "tool_error";
+  type: ProcessingStep["type"];
   content?: string;
   toolName?: string;
+  toolUseId?: string;
   status: "pending" | "complete" | "error";
+  // Write tool call waiting for the user's approval
+  awaitingApproval?: boolean;
+  // Latest progress reported by the MCP server for a running tool
+  progress?: string;
 }
 
-interface ExtractedQuery {
-  sql: string;
-  toolName: string;
-}
-
-interface Message {
-  id: string;
-  role: "user" | "assistant";
-  content: string;
-  timestamp: Date;
-  toolCalls?: { name: string; result: unknown; input?: Record<string, unknown> }[];
-  debugLogs?: LLMDebugLogs;
-  processingSteps?: ProcessingStep[];
-  extractedQueries?: ExtractedQuery[];
-}
-
-interface ThinkingStep {
-  id: string;
-  type: InterimUpdate["type"];
-  content?: string;
-  toolName?: string;
-  status: "pending" | "complete" | "error";
+function formatProgress({ progress, total, message }: MCPProgress): string {
+  const count = total ? `${Math.round((progress / total) * 100)}%` : String(progress);
+  return message ? `${message} (${count})` : count;
 }
 
 const suggestedQueries = [
@@ -52,7 +50,7 @@ const suggestedQueries = [
   { icon: Users, text: "What columns are in the Orders table?" },
 ];
 
-const initialMessages: Message[] = [
+const initialMessages: ChatMessage[] = [
   {
     id: "1",
     role: "assistant",
@@ -70,6 +68,7 @@ function MessageProcessingDetails({
   onDownloadLogs,
   onSaveQuery,
   isQuerySaved,
+  onPinQuery,
 }: {
   processingSteps?: ProcessingStep[];
   debugLogs?: LLMDebugLogs;
@@ -78,6 +77,7 @@ function MessageProcessingDetails({
   onDownloadLogs: (logs: LLMDebugLogs, id: string) => void;
   onSaveQuery: (sql: string) => void;
   isQuerySaved: (sql: string) => boolean;
+  onPinQuery: (sql: string) => void;
 }) {
   const [isOpen, setIsOpen] = useState(false);
   const [viewMode, setViewMode] = useState<"steps" | "queries" | "raw">(
@@ -182,19 +182,30 @@ function MessageProcessingDetails({
                     <span className="text-[10px] text-muted-foreground">
                       via {query.toolName}
                     </span>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      className={cn(
-                        "h-5 px-2 text-[10px]",
-                        saved ? "text-green-500" : "text-muted-foreground hover:text-foreground"
-                      )}
-                      onClick={() => !saved && onSaveQuery(query.sql)}
-                      disabled={saved}
-                    >
-                      <Save className="h-3 w-3 mr-1" />
-                      {saved ? "Saved" : "Save to Explorer"}
-                    </Button>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={cn(
+                          "h-5 px-2 text-[10px]",
+                          saved ? "text-green-500" : "text-muted-foreground hover:text-foreground"
+                        )}
+                        onClick={() => !saved && onSaveQuery(query.sql)}
+                        disabled={saved}
+                      >
+                        <Save className="h-3 w-3 mr-1" />
+                        {saved ? "Saved" : "Save to Explorer"}
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 px-2 text-[10px] text-muted-foreground hover:text-foreground"
+                        onClick={() => onPinQuery(query.sql)}
+                      >
+                        <Pin className="h-3 w-3 mr-1" />
+                        Pin to Dashboard
+                      </Button>
+                    </div>
                   </div>
                   <pre className="p-2 text-[10px] text-foreground/80 whitespace-pre-wrap overflow-x-auto max-h-[150px]">
                     {query.sql}
@@ -215,6 +226,16 @@ function MessageProcessingDetails({
                     <CheckCircle2 className="h-3 w-3 text-primary" />
                     <span className="text-muted-foreground italic">{step.content}</span>
                   </>
+                ) : step.type === "cancelled" ? (
+                  <>
+                    <Ban className="h-3 w-3 text-warning" />
+                    <span className="text-muted-foreground">{step.content}</span>
+                  </>
+                ) : step.type === "limit_reached" ? (
+                  <>
+                    <AlertCircle className="h-3 w-3 text-warning" />
+                    <span className="text-muted-foreground">{step.content}</span>
+                  </>
                 ) : (
                   <>
                     {step.status === "complete" ? (
@@ -239,6 +260,9 @@ function MessageProcessingDetails({
               <span>Duration: {debugLogs.totalDuration}ms</span>
               <span>In: {debugLogs.totalInputTokens} tokens</span>
               <span>Out: {debugLogs.totalOutputTokens} tokens</span>
+              {debugLogs.limitReached && (
+                <span className="text-warning">Limit: {debugLogs.limitReached.limit}</span>
+              )}
             </div>
             <div className="max-h-[300px] overflow-auto rounded border border-border bg-muted/30">
               <pre className="p-2 text-[10px] text-foreground/80 whitespace-pre-wrap break-all">
@@ -259,42 +283,92 @@ export default function Chat() {
   const { isConfigured, isLoading: isAuthLoading, error: authError, callTool, tools } = useCData();
   const { savePrompt, isPromptSaved } = useSavedPrompts();
   const { saveQuery, isQuerySaved } = useSavedQueries();
-  const [messages, setMessages] = useState<Message[]>(initialMessages);
+  const { pinWidget } = useDashboardData();
+  const [pinSql, setPinSql] = useState<string | null>(null);
+  const {
+    activeConversationId,
+    setActiveConversationId,
+    getConversation,
+    saveConversation,
+  } = useConversations();
+  // Resume the open conversation when navigating back to the Advisor
+  const [messages, setMessages] = useState<ChatMessage[]>(
+    () => getConversation(activeConversationId)?.messages ?? initialMessages
+  );
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [thinkingSteps, setThinkingSteps] = useState<ThinkingStep[]>([]);
   const thinkingStepsRef = useRef<ThinkingStep[]>([]);
+  const [streamingText, setStreamingText] = useState("");
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [toolsExpanded, setToolsExpanded] = useState(false);
   const [savedPromptsOpen, setSavedPromptsOpen] = useState(false);
+  const [historyOpen, setHistoryOpen] = useState(true);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   const isLLMConfigured = hasLLMConfig();
+  const llmProvider = getProviderConfig();
   const isReady = isConfigured && isLLMConfigured;
 
   // Auto-scroll to bottom when new content appears
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, thinkingSteps]);
+  }, [messages, thinkingSteps, streamingText]);
+
+  // Leaving the page stops a run in progress instead of letting it call tools unseen
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   const handleSend = async () => {
-    if (!input.trim() || !isReady) return;
+    if (!input.trim() || !isReady || isLoading) return;
 
-    const userMessage: Message = {
+    const userMessage: ChatMessage = {
       id: Date.now().toString(),
       role: "user",
       content: input,
       timestamp: new Date(),
     };
 
-    setMessages((prev) => [...prev, userMessage]);
+    // Start a new stored conversation on the first message
+    const conversationId = activeConversationId ?? `conversation-${Date.now()}`;
+    if (!activeConversationId) {
+      setActiveConversationId(conversationId);
+    }
+
+    // Saved directly rather than from an effect: the page may unmount (and cancel the
+    // run) before it renders again, and the turn must still be kept
+    const transcript = [...messages, userMessage];
+    saveConversation(conversationId, transcript);
+    const finishTurn = (reply: ChatMessage) => {
+      saveConversation(conversationId, [...transcript, reply]);
+      setMessages((prev) => [...prev, reply]);
+    };
+
+    setMessages(transcript);
     const userInput = input;
     setInput("");
     setIsLoading(true);
     setThinkingSteps([]);
     thinkingStepsRef.current = [];
+    setStreamingText("");
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     // Handler for interim updates - also updates ref for capturing in final message
     const handleInterimUpdate = (update: InterimUpdate) => {
+      // Streamed text goes into the in-progress bubble, not the step list
+      if (update.type === "text_delta") {
+        setStreamingText((prev) => prev + (update.content || ""));
+        return;
+      }
+
+      // Text streamed before a tool call is captured as a thinking step
+      if (update.type === "thinking" || update.type === "tool_start") {
+        setStreamingText("");
+      }
+
       setThinkingSteps((prev) => {
         const stepId = `${update.type}-${Date.now()}`;
         let newSteps: ThinkingStep[];
@@ -308,16 +382,30 @@ export default function Chat() {
           }];
         } else if (update.type === "tool_start") {
           newSteps = [...prev, {
-            id: stepId,
+            // Tools may start in parallel, so key by tool_use id when available
+            id: update.toolUseId ? `${update.type}-${update.toolUseId}` : stepId,
             type: update.type,
             toolName: update.toolName,
+            toolUseId: update.toolUseId,
             status: "pending" as const,
+            awaitingApproval: update.requiresApproval,
           }];
+        } else if (update.type === "tool_progress" && update.progress) {
+          // Progress means the call is running, so any approval was given
+          const progress = formatProgress(update.progress);
+          newSteps = prev.map((step) =>
+            step.toolUseId === update.toolUseId && step.status === "pending"
+              ? { ...step, progress, awaitingApproval: false }
+              : step
+          );
         } else if (update.type === "tool_complete" || update.type === "tool_error") {
-          // Update the last pending tool step
+          // Update the matching pending tool step
           newSteps = [...prev];
           for (let i = newSteps.length - 1; i >= 0; i--) {
-            if (newSteps[i].toolName === update.toolName && newSteps[i].status === "pending") {
+            const isMatch = update.toolUseId
+              ? newSteps[i].toolUseId === update.toolUseId
+              : newSteps[i].toolName === update.toolName;
+            if (isMatch && newSteps[i].status === "pending") {
               newSteps[i] = {
                 ...newSteps[i],
                 status: update.type === "tool_complete" ? "complete" : "error",
@@ -345,17 +433,43 @@ export default function Chat() {
         }));
 
       // Call the agentic chat loop with interim updates
-      const { response, toolCalls, debugLogs } = await chat(userInput, history, tools, callTool, handleInterimUpdate);
+      const { response, toolCalls, debugLogs, cancelled, limitReached } = await chat(
+        userInput,
+        history,
+        tools,
+        callTool,
+        handleInterimUpdate,
+        { signal: abortController.signal }
+      );
 
       // Convert ThinkingStep to ProcessingStep for storage
+      // (tools still running when the run was cancelled never completed)
       const processingSteps: ProcessingStep[] = thinkingStepsRef.current.map(step => ({
         id: step.id,
         type: step.type,
         content: step.content,
         toolName: step.toolName,
-        status: step.status,
+        status: step.status === "pending" ? "error" : step.status,
       }));
 
+      if (cancelled) {
+        processingSteps.push({
+          id: `cancelled-${Date.now()}`,
+          type: "cancelled",
+          content: "Cancelled by user",
+          status: "error",
+        });
+      }
+
+      if (limitReached) {
+        processingSteps.push({
+          id: `limit-${Date.now()}`,
+          type: "limit_reached",
+          content: `Run limit reached: ${limitReached.limit}`,
+          status: "error",
+        });
+      }
+
       // Extract SQL queries from debug logs (look for queryData tool calls)
       const extractedQueries: ExtractedQuery[] = [];
       if (debugLogs) {
@@ -379,28 +493,52 @@ export default function Chat() {
         }
       }
 
-      const assistantMessage: Message = {
+      const assistantMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: "assistant",
-        content: response,
+        content: cancelled && !response.trim() ? "_Stopped before a response was generated._" : response,
         timestamp: new Date(),
         toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
         debugLogs,
         processingSteps: processingSteps.length > 0 ? processingSteps : undefined,
         extractedQueries: extractedQueries.length > 0 ? extractedQueries : undefined,
       };
-      setMessages((prev) => [...prev, assistantMessage]);
+      finishTurn(assistantMessage);
     } catch (err) {
-      const errorMessage: Message = {
+      const errorMessage: ChatMessage = {
         id: (Date.now() + 1).toString(),
         role: "assistant",
         content: `Sorry, I encountered an error: ${err instanceof Error ? err.message : "Unknown error"}`,
         timestamp: new Date(),
       };
-      setMessages((prev) => [...prev, errorMessage]);
+      finishTurn(errorMessage);
     } finally {
+      abortControllerRef.current = null;
       setIsLoading(false);
       setThinkingSteps([]);
+      setStreamingText("");
+    }
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const handleNewConversation = () => {
+    setActiveConversationId(null);
+    setMessages(initialMessages);
+  };
+
+  const handleSelectConversation = (id: string) => {
+    const conversation = getConversation(id);
+    if (!conversation) return;
+    setActiveConversationId(id);
+    setMessages(conversation.messages);
+  };
+
+  const handleConversationDeleted = (id: string) => {
+    if (id === activeConversationId) {
+      setMessages(initialMessages);
     }
   };
 
@@ -422,6 +560,7 @@ export default function Chat() {
         totalInputTokens: debugLogs.totalInputTokens,
         totalOutputTokens: debugLogs.totalOutputTokens,
         totalRequests: debugLogs.entries.filter(e => e.type === "request").length,
+        limitReached: debugLogs.limitReached,
       },
       entries: debugLogs.entries.map(entry => ({
         ...entry,
@@ -442,11 +581,31 @@ export default function Chat() {
 
   return (
     <div className="h-screen flex animate-fade-in">
+      {/* Conversation History */}
+      <ConversationHistoryPanel
+        isOpen={historyOpen}
+        activeConversationId={activeConversationId}
+        disabled={isLoading}
+        onSelect={handleSelectConversation}
+        onNew={handleNewConversation}
+        onDeleted={handleConversationDeleted}
+      />
+
       {/* Main Chat Area */}
       <div className="flex-1 flex flex-col relative">
       {/* Header */}
       <div className="p-6 border-b border-border">
         <div className="flex items-start gap-3">
+          <button
+            onClick={() => setHistoryOpen(!historyOpen)}
+            className={cn(
+              "p-2 rounded-lg transition-colors",
+              historyOpen ? "bg-primary/10 text-primary" : "text-muted-foreground hover:text-foreground hover:bg-muted"
+            )}
+            title={historyOpen ? "Hide conversation history" : "Show conversation history"}
+          >
+            <History className="h-5 w-5" />
+          </button>
           <div className="p-2 rounded-lg gradient-primary shadow-glow">
             <Sparkles className="h-5 w-5 text-primary-foreground" />
           </div>
@@ -495,7 +654,7 @@ export default function Chat() {
       {!isConfigured && !isAuthLoading && (
         <div className="mx-6 mt-4 p-4 bg-warning/10 border border-warning/20 rounded-lg flex items-center gap-3">
           <AlertCircle className="h-5 w-5 text-warning" />
-          <p className="text-sm">CData credentials not configured. Set VITE_CDATA_* environment variables.</p>
+          <p className="text-sm">CData credentials not configured. Set the CDATA_* environment variables on the server.</p>
         </div>
       )}
 
@@ -503,7 +662,9 @@ export default function Chat() {
       {!isLLMConfigured && (
         <div className="mx-6 mt-4 p-4 bg-warning/10 border border-warning/20 rounded-lg flex items-center gap-3">
           <AlertCircle className="h-5 w-5 text-warning" />
-          <p className="text-sm">Anthropic API key not configured. Set VITE_ANTHROPIC_API_KEY environment variable.</p>
+          <p className="text-sm">
+            {llmProvider.label} is not configured. {getProviderConfigHint(llmProvider.id)}
+          </p>
         </div>
       )}
 
@@ -546,9 +707,13 @@ export default function Chat() {
                   </button>
                 </div>
               ) : (
-                <div className="text-sm prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0 prose-headings:my-2 prose-pre:my-2 prose-code:px-1 prose-code:py-0.5 prose-code:bg-muted prose-code:rounded prose-code:before:content-none prose-code:after:content-none">
-                  <ReactMarkdown>{message.content}</ReactMarkdown>
-                </div>
+                <>
+                  <div className="text-sm prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0 prose-headings:my-2 prose-pre:my-2 prose-code:px-1 prose-code:py-0.5 prose-code:bg-muted prose-code:rounded prose-code:before:content-none prose-code:after:content-none">
+                    <ReactMarkdown>{message.content}</ReactMarkdown>
+                  </div>
+                  {/* Inline tables/charts for tabular tool results */}
+                  {message.toolCalls && <ToolResultsView toolCalls={message.toolCalls} />}
+                </>
               )}
 
               {/* Show tool calls if any */}
@@ -580,6 +745,7 @@ export default function Chat() {
                   messageId={message.id}
                   onDownloadLogs={handleDownloadLogs}
                   onSaveQuery={(sql) => saveQuery(sql, undefined, "advisor")}
+                  onPinQuery={setPinSql}
                   isQuerySaved={isQuerySaved}
                 />
               )}
@@ -597,44 +763,62 @@ export default function Chat() {
         {isLoading && (
           <div className="flex justify-start">
             <div className="bg-card border border-border rounded-2xl px-4 py-3 min-w-[200px]">
-              {thinkingSteps.length === 0 ? (
+              {thinkingSteps.length === 0 && !streamingText ? (
                 <div className="flex items-center gap-2">
                   <Loader2 className="h-4 w-4 animate-spin text-primary" />
                   <span className="text-sm text-muted-foreground">Thinking...</span>
                 </div>
               ) : (
                 <div className="space-y-2">
-                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                    <Brain className="h-4 w-4 text-primary" />
-                    <span>Processing...</span>
-                  </div>
-                  <div className="space-y-1.5 pl-1">
-                    {thinkingSteps.map((step) => (
-                      <div key={step.id} className="flex items-center gap-2 text-xs">
-                        {step.type === "thinking" ? (
-                          <>
-                            <CheckCircle2 className="h-3 w-3 text-primary" />
-                            <span className="text-muted-foreground italic">{step.content}</span>
-                          </>
-                        ) : (
-                          <>
-                            {step.status === "pending" ? (
-                              <Loader2 className="h-3 w-3 animate-spin text-primary" />
-                            ) : step.status === "complete" ? (
-                              <CheckCircle2 className="h-3 w-3 text-green-500" />
+                  {thinkingSteps.length > 0 && (
+                    <>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Brain className="h-4 w-4 text-primary" />
+                        <span>Processing...</span>
+                      </div>
+                      <div className="space-y-1.5 pl-1">
+                        {thinkingSteps.map((step) => (
+                          <div key={step.id} className="flex items-center gap-2 text-xs">
+                            {step.type === "thinking" ? (
+                              <>
+                                <CheckCircle2 className="h-3 w-3 text-primary" />
+                                <span className="text-muted-foreground italic">{step.content}</span>
+                              </>
                             ) : (
-                              <XCircle className="h-3 w-3 text-destructive" />
+                              <>
+                                {step.status === "pending" ? (
+                                  <Loader2 className="h-3 w-3 animate-spin text-primary" />
+                                ) : step.status === "complete" ? (
+                                  <CheckCircle2 className="h-3 w-3 text-green-500" />
+                                ) : (
+                                  <XCircle className="h-3 w-3 text-destructive" />
+                                )}
+                                <span className={cn(
+                                  step.status === "pending" ? "text-foreground" : "text-muted-foreground"
+                                )}>
+                                  {step.status === "pending"
+                                    ? step.awaitingApproval
+                                      ? `Calling ${step.toolName} (needs your approval)`
+                                      : step.progress
+                                        ? `Calling ${step.toolName}: ${step.progress}`
+                                        : `Calling ${step.toolName}`
+                                    : `Called ${step.toolName}`}
+                                </span>
+                              </>
                             )}
-                            <span className={cn(
-                              step.status === "pending" ? "text-foreground" : "text-muted-foreground"
-                            )}>
-                              {step.status === "pending" ? "Calling" : "Called"} {step.toolName}
-                            </span>
-                          </>
-                        )}
+                          </div>
+                        ))}
                       </div>
-                    ))}
-                  </div>
+                    </>
+                  )}
+                  {streamingText && (
+                    <div className={cn(
+                      "text-sm prose prose-sm dark:prose-invert max-w-none prose-p:my-1 prose-ul:my-1 prose-ol:my-1 prose-li:my-0 prose-headings:my-2 prose-pre:my-2 prose-code:px-1 prose-code:py-0.5 prose-code:bg-muted prose-code:rounded prose-code:before:content-none prose-code:after:content-none",
+                      thinkingSteps.length > 0 && "pt-2 border-t border-border/50"
+                    )}>
+                      <ReactMarkdown>{streamingText}</ReactMarkdown>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -673,13 +857,24 @@ export default function Chat() {
             placeholder="Ask a question about your data..."
             className="flex-1 px-4 py-3 rounded-xl border border-border bg-background focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary transition-all"
           />
-          <Button
-            onClick={handleSend}
-            disabled={!input.trim() || isLoading || !isReady}
-            className="h-12 w-12 rounded-xl gradient-primary shadow-glow hover:opacity-90 transition-opacity p-0"
-          >
-            <Send className="h-5 w-5 text-primary-foreground" />
-          </Button>
+          {isLoading ? (
+            <Button
+              onClick={handleStop}
+              variant="outline"
+              className="h-12 w-12 rounded-xl p-0"
+              title="Stop"
+            >
+              <Square className="h-4 w-4 fill-current" />
+            </Button>
+          ) : (
+            <Button
+              onClick={handleSend}
+              disabled={!input.trim() || !isReady}
+              className="h-12 w-12 rounded-xl gradient-primary shadow-glow hover:opacity-90 transition-opacity p-0"
+            >
+              <Send className="h-5 w-5 text-primary-foreground" />
+            </Button>
+          )}
         </div>
       </div>
       </div>
@@ -690,6 +885,14 @@ export default function Chat() {
         isOpen={savedPromptsOpen}
         onToggle={() => setSavedPromptsOpen(!savedPromptsOpen)}
       />
+
+      {/* Pin query to dashboard */}
+      <PinWidgetDialog
+        open={pinSql !== null}
+        onOpenChange={(open) => !open && setPinSql(null)}
+        sql={pinSql ?? ""}
+        onSubmit={(settings) => pinSql && pinWidget({ ...settings, sql: pinSql, source: "advisor" })}
+      />
     </div>
   );
 }
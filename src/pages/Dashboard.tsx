@@ -1,16 +1,61 @@
-import { RefreshCw, AlertCircle } from "lucide-react";
+import { ReactNode, useMemo, useState } from "react";
+import { RefreshCw, AlertCircle, LayoutGrid, RotateCcw, Check, Eye } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { CustomerHealthTable } from "@/components/dashboard/CustomerHealthTable";
 import { ContractsEndingTable } from "@/components/dashboard/ContractsEndingTable";
 import { TicketsByPriorityChart } from "@/components/dashboard/TicketsByPriorityChart";
 import { DataSourcesPopover } from "@/components/dashboard/DataSourcesPopover";
 import { AccountInsightsChart } from "@/components/dashboard/AccountInsightsChart";
+import { PinnedWidgetCard } from "@/components/dashboard/PinnedWidgetCard";
+import { DashboardPanel } from "@/components/dashboard/DashboardPanel";
 import { useDashboardData } from "@/contexts/DashboardDataContext";
 import { useCData } from "@/contexts/CDataContext";
+import { useAuth } from "@/contexts/AuthContext";
+import { useDashboardLayout, type LayoutItem } from "@/hooks/useDashboardLayout";
+
+interface PanelDefinition {
+  id: string;
+  title: string;
+  render: () => ReactNode;
+}
+
+const BUILT_IN_PANELS: PanelDefinition[] = [
+  { id: "customer-health", title: "Customer Accounts", render: () => <CustomerHealthTable /> },
+  { id: "contracts-ending", title: "Upcoming Opportunities", render: () => <ContractsEndingTable /> },
+  { id: "account-insights", title: "Account Insights", render: () => <AccountInsightsChart /> },
+  { id: "tickets-by-priority", title: "Tickets by Priority", render: () => <TicketsByPriorityChart /> },
+];
+
+// Wide tables and charts on the left, narrow cards on the right
+const DEFAULT_LAYOUT: LayoutItem[] = [
+  { id: "customer-health", span: 2, hidden: false },
+  { id: "contracts-ending", span: 1, hidden: false },
+  { id: "account-insights", span: 2, hidden: false },
+  { id: "tickets-by-priority", span: 1, hidden: false },
+];
 
 export default function Dashboard() {
-  const { refreshAll, isRefreshing } = useDashboardData();
+  const { refreshAll, isRefreshing, pinnedWidgets } = useDashboardData();
   const { isConfigured, isLoading: isAuthLoading, error: authError } = useCData();
+  const { user } = useAuth();
+  const [isEditingLayout, setIsEditingLayout] = useState(false);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+
+  const panels = useMemo<PanelDefinition[]>(() => [
+    ...BUILT_IN_PANELS,
+    ...pinnedWidgets.map(widget => ({
+      id: widget.id,
+      title: widget.title,
+      render: () => <PinnedWidgetCard widget={widget} />,
+    })),
+  ], [pinnedWidgets]);
+
+  const panelIds = useMemo(() => panels.map(panel => panel.id), [panels]);
+  const { layout, isCustomized, movePanel, resizePanel, setPanelHidden, resetLayout } =
+    useDashboardLayout(user?.email, panelIds, DEFAULT_LAYOUT);
+
+  const panelsById = new Map(panels.map(panel => [panel.id, panel]));
+  const hiddenPanels = layout.filter(item => item.hidden);
 
   return (
     <div className="p-8 space-y-6 animate-fade-in">
@@ -26,7 +71,7 @@ export default function Dashboard() {
       {!isConfigured && !isAuthLoading && (
         <div className="p-4 bg-warning/10 border border-warning/20 rounded-lg flex items-center gap-3">
           <AlertCircle className="h-5 w-5 text-warning" />
-          <p className="text-sm">CData credentials not configured. Set VITE_CDATA_* environment variables.</p>
+          <p className="text-sm">CData credentials not configured. Set the CDATA_* environment variables on the server.</p>
         </div>
       )}
 
@@ -36,29 +81,96 @@ export default function Dashboard() {
           <p className="text-muted-foreground mt-1">Monitor account health and renewal status at a glance.</p>
         </div>
         <div className="flex items-center gap-2">
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={refreshAll}
-            disabled={isRefreshing}
-            className="gap-2"
-          >
-            <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
-            Refresh
-          </Button>
-          <DataSourcesPopover />
+          {isEditingLayout ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={resetLayout}
+                disabled={!isCustomized}
+                className="gap-2"
+              >
+                <RotateCcw className="h-4 w-4" />
+                Reset to default
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => setIsEditingLayout(false)}
+                className="gap-2 gradient-primary"
+              >
+                <Check className="h-4 w-4" />
+                Done
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsEditingLayout(true)}
+                className="gap-2"
+              >
+                <LayoutGrid className="h-4 w-4" />
+                Customize
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={refreshAll}
+                disabled={isRefreshing}
+                className="gap-2"
+              >
+                <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+                Refresh
+              </Button>
+              <DataSourcesPopover />
+            </>
+          )}
         </div>
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        <div className="lg:col-span-2 flex flex-col gap-6">
-          <CustomerHealthTable />
-          <AccountInsightsChart />
-        </div>
-        <div className="flex flex-col gap-6">
-          <ContractsEndingTable />
-          <TicketsByPriorityChart />
+      {/* Hidden panels (layout mode only) */}
+      {isEditingLayout && hiddenPanels.length > 0 && (
+        <div className="p-3 rounded-lg border border-dashed border-border flex flex-wrap items-center gap-2">
+          <span className="text-xs font-medium text-muted-foreground uppercase tracking-wider mr-1">
+            Hidden
+          </span>
+          {hiddenPanels.map(item => (
+            <Button
+              key={item.id}
+              variant="outline"
+              size="sm"
+              onClick={() => setPanelHidden(item.id, false)}
+              className="h-7 gap-1.5 text-xs"
+            >
+              <Eye className="h-3.5 w-3.5" />
+              {panelsById.get(item.id)?.title}
+            </Button>
+          ))}
         </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {layout.filter(item => !item.hidden).map(item => {
+          const panel = panelsById.get(item.id);
+          if (!panel) return null;
+          return (
+            <DashboardPanel
+              key={item.id}
+              title={panel.title}
+              span={item.span}
+              isEditing={isEditingLayout}
+              isDragging={draggingId === item.id}
+              onDragStart={() => setDraggingId(item.id)}
+              onDragEnter={() => draggingId && movePanel(draggingId, item.id)}
+              onDragEnd={() => setDraggingId(null)}
+              onResize={(span) => resizePanel(item.id, span)}
+              onHide={() => setPanelHidden(item.id, true)}
+            >
+              {panel.render()}
+            </DashboardPanel>
+          );
+        })}
       </div>
     </div>
   );
@@ -13,35 +13,44 @@ import {
   Bookmark,
   Trash2,
   Sparkles,
+  Pin,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useCData } from "@/contexts/CDataContext";
-import { useSavedQueries } from "@/contexts/SavedQueriesContext";
+import { useSavedQueries, type SavedQuery } from "@/contexts/SavedQueriesContext";
+import { useDashboardData } from "@/contexts/DashboardDataContext";
 import { useSchema, type SchemaItem } from "@/contexts/SchemaContext";
 import {
   ResizableHandle,
   ResizablePanel,
   ResizablePanelGroup,
 } from "@/components/ui/resizable";
+import { PinWidgetDialog } from "@/components/dashboard/PinWidgetDialog";
 
 interface QueryResult {
   columns: string[];
   rows: unknown[][];
   rowCount: number;
   executionTime: number;
+  // Served from the query cache without calling CData
+  cached: boolean;
 }
 
 export default function DataExplorer() {
   const { queryData, isConfigured, isLoading: isAuthLoading, token } = useCData();
   const { queries: savedQueries, deleteQuery } = useSavedQueries();
+  const { pinWidget } = useDashboardData();
   const { schemaTree, isLoadingSchema, refreshSchema, toggleItem } = useSchema();
   const [selectedTable, setSelectedTable] = useState<string | null>(null);
   const [sqlQuery, setSqlQuery] = useState("");
   const [queryResult, setQueryResult] = useState<QueryResult | null>(null);
   const [isExecuting, setIsExecuting] = useState(false);
   const [queryError, setQueryError] = useState<string | null>(null);
+  // Set when the query was rewritten for the user's role (allowed columns, row filters)
+  const [executedSql, setExecutedSql] = useState<string | null>(null);
   const [showSavedQueries, setShowSavedQueries] = useState(false);
+  const [queryToPin, setQueryToPin] = useState<SavedQuery | null>(null);
 
   // Execute SQL query
   const executeQuery = async () => {
@@ -50,12 +59,14 @@ export default function DataExplorer() {
     setIsExecuting(true);
     setQueryError(null);
     setQueryResult(null);
+    setExecutedSql(null);
 
     const startTime = performance.now();
 
     try {
-      const result = await queryData(sqlQuery);
+      const result = await queryData(sqlQuery, "explorer");
       const endTime = performance.now();
+      setExecutedSql(result.executedSql ?? null);
 
       if (result.results?.[0]) {
         const { schema, rows } = result.results[0];
@@ -64,6 +75,7 @@ export default function DataExplorer() {
           rows,
           rowCount: rows.length,
           executionTime: Math.round(endTime - startTime),
+          cached: result.cache === "hit",
         });
       }
     } catch (err) {
@@ -154,7 +166,7 @@ export default function DataExplorer() {
     return (
       <div className="h-screen flex items-center justify-center">
         <p className="text-muted-foreground">
-          CData credentials not configured. Set VITE_CDATA_* environment variables.
+          CData credentials not configured. Set the CDATA_* environment variables on the server.
         </p>
       </div>
     );
@@ -233,6 +245,18 @@ export default function DataExplorer() {
                   <p className="text-sm font-medium truncate">{query.name}</p>
                   <p className="text-xs text-muted-foreground truncate font-mono">{query.sql}</p>
                 </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                  title="Pin to dashboard"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    setQueryToPin(query);
+                  }}
+                >
+                  <Pin className="h-3 w-3" />
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -333,9 +357,16 @@ export default function DataExplorer() {
                   {queryResult && (
                     <span className="text-xs text-muted-foreground">
                       {queryResult.rowCount} rows in {queryResult.executionTime}ms
+                      {queryResult.cached && " (cached)"}
                     </span>
                   )}
                 </div>
+                {executedSql && !queryError && (
+                  <div className="px-3 py-2 border-b border-border bg-muted/20 text-xs text-muted-foreground">
+                    Adjusted to the columns and rows your role can see:{" "}
+                    <code className="font-mono break-all">{executedSql}</code>
+                  </div>
+                )}
                 <div className="flex-1 overflow-auto">
                   {queryError ? (
                     <div className="p-4 text-destructive text-sm">
@@ -395,6 +426,17 @@ export default function DataExplorer() {
           </ResizablePanelGroup>
         </ResizablePanel>
       </ResizablePanelGroup>
+
+      {/* Pin saved query to dashboard */}
+      <PinWidgetDialog
+        open={queryToPin !== null}
+        onOpenChange={(open) => !open && setQueryToPin(null)}
+        sql={queryToPin?.sql ?? ""}
+        defaults={{ title: queryToPin?.name }}
+        onSubmit={(settings) =>
+          queryToPin && pinWidget({ ...settings, sql: queryToPin.sql, source: "saved-query" })
+        }
+      />
     </div>
   );
 }
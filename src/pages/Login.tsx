@@ -1,19 +1,22 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Button } from "@/components/ui/button";
-import { Eye, EyeOff } from "lucide-react";
+import { Eye, EyeOff, KeyRound, Loader2 } from "lucide-react";
 import { useAuth } from "@/contexts/AuthContext";
 
 export default function Login() {
   const navigate = useNavigate();
-  const { login, isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+  const { login, loginWithOIDC, oidcProvider, isAuthenticated } = useAuth();
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [showPassword, setShowPassword] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Single sign-on failures come back from the server as ?error=
+  const [error, setError] = useState<string | null>(searchParams.get("error"));
 
   // Redirect if already authenticated
   useEffect(() => {
@@ -22,11 +25,13 @@ export default function Login() {
     }
   }, [isAuthenticated, navigate]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
+    setIsSubmitting(true);
 
-    const result = login(email, password);
+    const result = await login(email, password);
+    setIsSubmitting(false);
     if (result.success) {
       navigate("/dashboard");
     } else {
@@ -101,10 +106,24 @@ export default function Login() {
                   Forgot password?
                 </Button>
               </div>
-              <Button type="submit" className="w-full gradient-primary">
+              <Button type="submit" className="w-full gradient-primary" disabled={isSubmitting}>
+                {isSubmitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
                 Sign in
               </Button>
             </form>
+            {oidcProvider && (
+              <>
+                <div className="flex items-center gap-3 my-4">
+                  <div className="h-px flex-1 bg-border" />
+                  <span className="text-xs text-muted-foreground uppercase">or</span>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+                <Button type="button" variant="outline" className="w-full" onClick={loginWithOIDC}>
+                  <KeyRound className="h-4 w-4 mr-2" />
+                  Sign in with {oidcProvider}
+                </Button>
+              </>
+            )}
           </CardContent>
         </Card>
 
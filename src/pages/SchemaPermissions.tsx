@@ -0,0 +1,489 @@
+import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
+import {
+  ArrowLeft,
+  ShieldCheck,
+  Plus,
+  Trash2,
+  Loader2,
+  ChevronRight,
+  ChevronDown,
+  Database,
+  Folder,
+  FolderOpen,
+  Table,
+  Columns,
+  CheckCircle2,
+  AlertCircle,
+  Filter,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PageHeader } from "@/components/shared/PageHeader";
+import { useSchema, type SchemaItem } from "@/contexts/SchemaContext";
+import { usePermissions } from "@/contexts/PermissionsContext";
+import { cn } from "@/lib/utils";
+import {
+  ADMIN_ROLE,
+  getSchemaAccess,
+  getTableAccess,
+  isColumnAllowed,
+  listRowFilters,
+  setColumnAccess,
+  setRowFilter,
+  setSchemaAccess,
+  setTableAccess,
+  type AccessLevel,
+  type PermissionsDocument,
+  type RolePolicy,
+} from "@/lib/permissions";
+import { validateRowFilter } from "@/lib/sqlPermissions";
+
+const ROLE_ID_PATTERN = /^[a-z0-9][a-z0-9_-]*$/i;
+
+function toCheckedState(level: AccessLevel): boolean | "indeterminate" {
+  if (level === "all") return true;
+  return level === "partial" ? "indeterminate" : false;
+}
+
+// Admin editor for which schemas, tables and columns each role can see
+export default function SchemaPermissions() {
+  const { schemaTree, isLoadingSchema, toggleItem } = useSchema();
+  const { permissions, savePermissions } = usePermissions();
+  const [draft, setDraft] = useState<PermissionsDocument | null>(permissions);
+  const [selectedRole, setSelectedRole] = useState<string | null>(null);
+  const [newRoleId, setNewRoleId] = useState("");
+  const [newRoleLabel, setNewRoleLabel] = useState("");
+  const [roleError, setRoleError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [savedAt, setSavedAt] = useState<Date | null>(null);
+  const [newFilter, setNewFilter] = useState({ schema: "", table: "", predicate: "" });
+  const [filterError, setFilterError] = useState<string | null>(null);
+
+  // Start editing from the server's copy once it has loaded
+  useEffect(() => {
+    if (permissions && !draft) {
+      setDraft(permissions);
+    }
+  }, [permissions, draft]);
+
+  const roleIds = draft ? Object.keys(draft.roles) : [];
+  const activeRole = selectedRole && draft?.roles[selectedRole] ? selectedRole : roleIds[0] ?? null;
+  const policy = activeRole ? draft?.roles[activeRole] : undefined;
+  const isDirty = !!draft && JSON.stringify(draft) !== JSON.stringify(permissions);
+  const rowFilters = listRowFilters(policy);
+  // Row filters are injected into users' SQL, so every one must be valid before saving
+  const hasInvalidFilter =
+    !!draft && Object.values(draft.roles).some((role) => listRowFilters(role).some((f) => validateRowFilter(f.predicate)));
+
+  const updatePolicy = (update: (policy: RolePolicy) => RolePolicy) => {
+    if (!draft || !activeRole || !policy) return;
+    setDraft({ roles: { ...draft.roles, [activeRole]: update(policy) } });
+    setSavedAt(null);
+  };
+
+  const handleAddRole = () => {
+    const id = newRoleId.trim();
+    const label = newRoleLabel.trim() || id;
+    if (!draft) return;
+
+    if (!ROLE_ID_PATTERN.test(id)) {
+      setRoleError('Use letters, digits, "-" and "_" for the role id');
+      return;
+    }
+    if (id === ADMIN_ROLE || draft.roles[id]) {
+      setRoleError(`Role "${id}" already exists`);
+      return;
+    }
+
+    setDraft({ roles: { ...draft.roles, [id]: { label, schemas: {} } } });
+    setSelectedRole(id);
+    setNewRoleId("");
+    setNewRoleLabel("");
+    setRoleError(null);
+    setSavedAt(null);
+  };
+
+  const handleDeleteRole = (id: string) => {
+    if (!draft) return;
+    const roles = { ...draft.roles };
+    delete roles[id];
+    setDraft({ roles });
+    setSavedAt(null);
+  };
+
+  const handleAddFilter = () => {
+    const schema = newFilter.schema.trim();
+    const table = newFilter.table.trim();
+    const problem = validateRowFilter(newFilter.predicate);
+    if (!schema || !table) {
+      setFilterError("Enter the schema and table to filter");
+      return;
+    }
+    if (problem) {
+      setFilterError(problem);
+      return;
+    }
+
+    updatePolicy((p) => setRowFilter(p, schema, table, newFilter.predicate.trim()));
+    setNewFilter({ schema: "", table: "", predicate: "" });
+    setFilterError(null);
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      await savePermissions(draft);
+      setSavedAt(new Date());
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save permissions");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDiscard = () => {
+    setDraft(permissions);
+    setSaveError(null);
+    setSavedAt(null);
+  };
+
+  // `siblings` are the names loaded next to the item, `parentSiblings` those next to its parent
+  const renderAccessCheckbox = (item: SchemaItem, path: string[], siblings: string[], parentSiblings: string[]) => {
+    if (!policy || item.type === "connection") return null;
+
+    let checked: boolean | "indeterminate";
+    let onChange: (allowed: boolean) => void;
+
+    if (item.type === "schema") {
+      checked = toCheckedState(getSchemaAccess(policy, item.name));
+      onChange = (allowed) => updatePolicy((p) => setSchemaAccess(p, item.name, allowed));
+    } else if (item.type === "table") {
+      const schema = path[1];
+      checked = toCheckedState(getTableAccess(policy, schema, item.name));
+      onChange = (allowed) => updatePolicy((p) => setTableAccess(p, schema, item.name, allowed, siblings));
+    } else {
+      const [, schema, table] = path;
+      checked = isColumnAllowed(policy, schema, table, item.name);
+      onChange = (allowed) =>
+        updatePolicy((p) => setColumnAccess(p, schema, table, item.name, allowed, parentSiblings, siblings));
+    }
+
+    return (
+      <Checkbox
+        checked={checked}
+        onCheckedChange={(value) => onChange(value === true)}
+        onClick={(e) => e.stopPropagation()}
+        className="data-[state=indeterminate]:bg-primary/30"
+        aria-label={`Allow ${item.name}`}
+      />
+    );
+  };
+
+  const renderTreeItem = (
+    item: SchemaItem,
+    path: string[],
+    depth: number,
+    siblings: string[],
+    parentSiblings: string[]
+  ) => {
+    const hasChildren = item.type !== "column";
+    const fullPath = [...path, item.name];
+    const childNames = item.children?.map((child) => child.name) ?? [];
+
+    return (
+      <div key={item.name}>
+        <div
+          className={cn(
+            "flex items-center gap-2 py-1 px-2 rounded text-sm",
+            hasChildren && "cursor-pointer hover:bg-muted/50"
+          )}
+          style={{ paddingLeft: `${depth * 16 + 8}px` }}
+          onClick={() => {
+            if (hasChildren) {
+              toggleItem(item, fullPath);
+            }
+          }}
+        >
+          {hasChildren ? (
+            <span className="w-4 h-4 flex items-center justify-center">
+              {item.isLoading ? (
+                <Loader2 className="h-3 w-3 animate-spin" />
+              ) : item.isExpanded ? (
+                <ChevronDown className="h-3 w-3" />
+              ) : (
+                <ChevronRight className="h-3 w-3" />
+              )}
+            </span>
+          ) : (
+            <span className="w-4" />
+          )}
+
+          {renderAccessCheckbox(item, path, siblings, parentSiblings)}
+
+          {item.type === "connection" && <Database className="h-4 w-4 text-blue-500" />}
+          {item.type === "schema" &&
+            (item.isExpanded ? (
+              <FolderOpen className="h-4 w-4 text-yellow-500" />
+            ) : (
+              <Folder className="h-4 w-4 text-yellow-500" />
+            ))}
+          {item.type === "table" && <Table className="h-4 w-4 text-green-500" />}
+          {item.type === "column" && <Columns className="h-4 w-4 text-gray-500" />}
+
+          <span className="truncate">{item.name}</span>
+          {item.dataType && (
+            <span className="text-xs text-muted-foreground ml-1">({item.dataType})</span>
+          )}
+        </div>
+
+        {item.isExpanded &&
+          item.children?.map((child) => renderTreeItem(child, fullPath, depth + 1, childNames, siblings))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="p-6 max-w-6xl mx-auto space-y-6 animate-fade-in">
+      <PageHeader
+        title="Schema Permissions"
+        description="Choose which schemas, tables and columns each role can see. Admins always have full access."
+        icon={ShieldCheck}
+        actions={
+          <>
+            <Button variant="outline" size="sm" asChild>
+              <Link to="/settings">
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Settings
+              </Link>
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleDiscard} disabled={!isDirty || isSaving}>
+              Discard
+            </Button>
+            <Button size="sm" onClick={handleSave} disabled={!isDirty || isSaving || hasInvalidFilter}>
+              {isSaving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </>
+        }
+      />
+
+      {saveError && (
+        <div className="flex items-center gap-2 text-sm text-destructive">
+          <AlertCircle className="h-4 w-4" />
+          {saveError}
+        </div>
+      )}
+      {savedAt && !isDirty && (
+        <div className="flex items-center gap-2 text-sm text-green-600">
+          <CheckCircle2 className="h-4 w-4" />
+          Saved at {savedAt.toLocaleTimeString()}. Signed-in users get the new permissions the next time they load the app.
+        </div>
+      )}
+
+      {!draft ? (
+        <div className="flex items-center justify-center py-16">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        <div className="grid gap-6 md:grid-cols-[280px_1fr]">
+          {/* Roles */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Roles</CardTitle>
+              <CardDescription>Assign roles to users in users.json.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                {roleIds.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No roles yet. Add one below.</p>
+                )}
+                {roleIds.map((id) => (
+                  <div
+                    key={id}
+                    className={cn(
+                      "flex items-center justify-between gap-2 rounded-md px-3 py-2 text-sm cursor-pointer hover:bg-muted/50",
+                      id === activeRole && "bg-primary/10"
+                    )}
+                    onClick={() => setSelectedRole(id)}
+                  >
+                    <div className="min-w-0">
+                      <p className="font-medium truncate">{draft.roles[id].label}</p>
+                      <p className="text-xs text-muted-foreground truncate">{id}</p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7 shrink-0"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDeleteRole(id);
+                      }}
+                      aria-label={`Delete ${id}`}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2 border-t pt-4">
+                <Label htmlFor="new-role-id">Add role</Label>
+                <Input
+                  id="new-role-id"
+                  placeholder="Role id, e.g. analyst"
+                  value={newRoleId}
+                  onChange={(e) => setNewRoleId(e.target.value)}
+                />
+                <Input
+                  placeholder="Label (optional)"
+                  value={newRoleLabel}
+                  onChange={(e) => setNewRoleLabel(e.target.value)}
+                />
+                {roleError && <p className="text-xs text-destructive">{roleError}</p>}
+                <Button variant="outline" size="sm" className="w-full" onClick={handleAddRole} disabled={!newRoleId.trim()}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Role
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            {/* Live schema tree */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  {policy ? `Access for ${policy.label}` : "Access"}
+                </CardTitle>
+                <CardDescription>
+                  Checking a schema or table also grants anything added to it later. Expand it to pick individual
+                  tables or columns instead.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!policy ? (
+                  <p className="text-sm text-muted-foreground">Select or add a role to edit its access.</p>
+                ) : isLoadingSchema ? (
+                  <div className="flex items-center justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                  </div>
+                ) : schemaTree.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">No connections enabled. Enable data sources to browse their schemas.</p>
+                ) : (
+                  <div className="max-h-[60vh] overflow-auto">
+                    {schemaTree.map((item) =>
+                      renderTreeItem(item, [], 0, schemaTree.map((c) => c.name), [])
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Row-level security */}
+            {policy && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base flex items-center gap-2">
+                    <Filter className="h-4 w-4" />
+                    Row filters
+                  </CardTitle>
+                  <CardDescription>
+                    Limit a table to the rows matching a SQL condition. It is added to every query on the table,
+                    including the Advisor's. Use {"{{user.email}}"}, {"{{user.name}}"}, {"{{user.tenant}}"} or{" "}
+                    {"{{user.role}}"} for the signed-in user.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {rowFilters.length === 0 && (
+                    <p className="text-sm text-muted-foreground">No row filters. {policy.label} sees every row of its tables.</p>
+                  )}
+                  {rowFilters.map((filter) => {
+                    const problem = validateRowFilter(filter.predicate);
+                    return (
+                      <div key={`${filter.schema}.${filter.table}`} className="space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <Label className="font-mono text-xs">
+                            {filter.schema}.{filter.table}
+                          </Label>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7"
+                            onClick={() => updatePolicy((p) => setRowFilter(p, filter.schema, filter.table, ""))}
+                            aria-label={`Remove row filter on ${filter.schema}.${filter.table}`}
+                          >
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </Button>
+                        </div>
+                        <Textarea
+                          value={filter.predicate}
+                          onChange={(e) =>
+                            updatePolicy((p) => ({
+                              ...p,
+                              rowFilters: {
+                                ...p.rowFilters,
+                                [filter.schema]: { ...p.rowFilters?.[filter.schema], [filter.table]: e.target.value },
+                              },
+                            }))
+                          }
+                          className="font-mono text-xs min-h-[60px]"
+                        />
+                        {problem && <p className="text-xs text-destructive">{problem}</p>}
+                      </div>
+                    );
+                  })}
+
+                  <div className="space-y-2 border-t pt-4">
+                    <Label>Add row filter</Label>
+                    <div className="grid gap-2 sm:grid-cols-2">
+                      <Input
+                        placeholder="Schema, e.g. Salesforce"
+                        value={newFilter.schema}
+                        onChange={(e) => setNewFilter({ ...newFilter, schema: e.target.value })}
+                      />
+                      <Input
+                        placeholder="Table, e.g. Account"
+                        value={newFilter.table}
+                        onChange={(e) => setNewFilter({ ...newFilter, table: e.target.value })}
+                      />
+                    </div>
+                    <Textarea
+                      placeholder="[OwnerEmail__c] = {{user.email}}"
+                      value={newFilter.predicate}
+                      onChange={(e) => setNewFilter({ ...newFilter, predicate: e.target.value })}
+                      className="font-mono text-xs min-h-[60px]"
+                    />
+                    {filterError && <p className="text-xs text-destructive">{filterError}</p>}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleAddFilter}
+                      disabled={!newFilter.schema.trim() || !newFilter.table.trim() || !newFilter.predicate.trim()}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Row Filter
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
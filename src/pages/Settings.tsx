@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef, useCallback } from "react";
+import { Link } from "react-router-dom";
 import {
   Database,
   Plus,
@@ -8,6 +9,9 @@ import {
   ExternalLink,
   CheckCircle2,
   AlertCircle,
+  ShieldCheck,
+  ChevronRight,
+  ScrollText,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
@@ -45,7 +49,10 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { useCData } from "@/contexts/CDataContext";
 import { useDataSources } from "@/contexts/DataSourcesContext";
+import { useAuth } from "@/contexts/AuthContext";
 import { Connection } from "@/lib/cdata";
+import { LLMProviderCard } from "@/components/settings/LLMProviderCard";
+import { MCPServersCard } from "@/components/settings/MCPServersCard";
 
 export default function Settings() {
   const {
@@ -59,6 +66,7 @@ export default function Settings() {
     getDataSourceLogoURL,
   } = useCData();
   const { syncFromConnections } = useDataSources();
+  const { user } = useAuth();
 
   const [connections, setConnections] = useState<Connection[]>([]);
   const [isLoadingConnections, setIsLoadingConnections] = useState(false);
@@ -250,14 +258,14 @@ export default function Settings() {
             </CardTitle>
             <CardDescription>
               CData Embedded Cloud credentials are not configured. Please add the following
-              environment variables to enable connection management:
+              environment variables on the server to enable connection management:
             </CardDescription>
           </CardHeader>
           <CardContent>
             <ul className="list-disc list-inside space-y-1 text-sm text-muted-foreground">
-              <li>VITE_CDATA_ACCOUNT_ID</li>
-              <li>VITE_CDATA_SUBSCRIBER_ID</li>
-              <li>VITE_CDATA_PRIVATE_KEY</li>
+              <li>CDATA_ACCOUNT_ID</li>
+              <li>CDATA_SUBSCRIBER_ID</li>
+              <li>CDATA_PRIVATE_KEY</li>
             </ul>
           </CardContent>
         </Card>
@@ -385,6 +393,62 @@ export default function Settings() {
         </CardContent>
       </Card>
 
+      {/* AI Advisor model provider */}
+      <LLMProviderCard />
+
+      {/* Other MCP servers for the AI Advisor (admin only, like the Advisor) */}
+      {user?.role === "admin" && <MCPServersCard />}
+
+      {/* Role-based schema permissions (admin only) */}
+      {user?.role === "admin" && (
+        <Card className="transition-all duration-200 hover:shadow-md hover:border-primary/20">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  <CardTitle>Schema Permissions</CardTitle>
+                </div>
+                <CardDescription className="mt-1.5">
+                  Control which schemas, tables and columns each role can see in the Data Explorer.
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/settings/permissions">
+                  Manage
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+      )}
+
+      {/* Audit log of every query and tool call (admin only) */}
+      {user?.role === "admin" && (
+        <Card className="transition-all duration-200 hover:shadow-md hover:border-primary/20">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <div className="flex items-center gap-2">
+                  <ScrollText className="h-5 w-5" />
+                  <CardTitle>Audit Log</CardTitle>
+                </div>
+                <CardDescription className="mt-1.5">
+                  Review and export every query and tool call, with who ran it, from where and how long it took.
+                </CardDescription>
+              </div>
+              <Button variant="outline" size="sm" asChild>
+                <Link to="/settings/audit">
+                  View
+                  <ChevronRight className="h-4 w-4 ml-1" />
+                </Link>
+              </Button>
+            </div>
+          </CardHeader>
+        </Card>
+      )}
+
       {/* Add Connection Dialog */}
       <Dialog open={isAddDialogOpen} onOpenChange={handleAddDialogClose}>
         <DialogContent className="max-w-4xl h-[80vh] flex flex-col">
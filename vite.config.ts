@@ -2,8 +2,14 @@ import { defineConfig, type Plugin, loadEnv } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
 import { componentTagger } from "lovable-tagger";
-import { SignJWT, importPKCS8 } from "jose";
 import fs from "fs";
+import { createAuthHandler } from "./server/auth";
+import { createJWTHandler } from "./server/jwt";
+import { createCDataProxy } from "./server/cdataProxy";
+import { createLLMProxy } from "./server/llmProxy";
+import { createPermissionsHandler } from "./server/permissions";
+import { createMCPServersHandler } from "./server/mcpServers";
+import { createAuditHandler } from "./server/audit";
 
 // Load HTTPS certs if they exist (for custom domain development)
 const certKeyPath = "./cdata.embedded.demo-key.pem";
@@ -16,51 +22,23 @@ const httpsConfig =
       }
     : undefined;
 
-// Server-side JWT generation plugin for non-HTTPS environments
-function jwtServerPlugin(): Plugin {
-  // Load env vars at plugin creation time
-  const env = loadEnv("development", process.cwd(), "VITE_");
+// Mount the production server's API routes on the dev server, so dev and
+// production share one implementation (see server/index.ts)
+function apiRoutesPlugin(): Plugin {
+  // Load all env vars, not just VITE_ ones - server-only keys are deliberately unprefixed
+  const env = loadEnv("development", process.cwd(), "");
 
   return {
-    name: "jwt-server",
+    name: "api-routes",
     configureServer(server) {
-      server.middlewares.use(async (req, res, next) => {
-        if (req.url === "/api/jwt" && req.method === "GET") {
-          try {
-            const accountId = env.VITE_CDATA_ACCOUNT_ID || "";
-            const subscriberId = env.VITE_CDATA_SUBSCRIBER_ID || "";
-            const privateKey = env.VITE_CDATA_PRIVATE_KEY || "";
-
-            if (!accountId || !subscriberId || !privateKey) {
-              res.statusCode = 500;
-              res.end(JSON.stringify({ error: "Missing CData credentials" }));
-              return;
-            }
-
-            const now = Math.floor(Date.now() / 1000);
-            const payload = {
-              tokenType: "powered-by",
-              iat: now,
-              exp: now + 7200,
-              iss: accountId,
-              sub: subscriberId,
-            };
-
-            const key = await importPKCS8(privateKey, "RS256");
-            const token = await new SignJWT(payload)
-              .setProtectedHeader({ alg: "RS256" })
-              .sign(key);
-
-            res.setHeader("Content-Type", "application/json");
-            res.end(JSON.stringify({ token }));
-          } catch (err) {
-            res.statusCode = 500;
-            res.end(JSON.stringify({ error: String(err) }));
-          }
-          return;
-        }
-        next();
-      });
+      // Auth runs first: it resolves the session the other routes rely on
+      server.middlewares.use(createAuthHandler(env));
+      server.middlewares.use(createJWTHandler(env));
+      server.middlewares.use(createCDataProxy(env));
+      server.middlewares.use(createLLMProxy(env));
+      server.middlewares.use(createPermissionsHandler(env));
+      server.middlewares.use(createMCPServersHandler(env));
+      server.middlewares.use(createAuditHandler(env));
     },
   };
 }
@@ -70,21 +48,12 @@ export default defineConfig(({ mode }) => ({
   server: {
     host: "::",
     port: 8080,
-    proxy: {
-      // Proxy CData API requests to avoid CORS issues
-      "/cdata-api": {
-        target: "https://cloud.cdata.com",
-        changeOrigin: true,
-        rewrite: (path) => path.replace(/^\/cdata-api/, "/api"),
-        secure: true,
-      },
-    },
     https: httpsConfig,
   },
   plugins: [
     react(),
     mode === "development" && componentTagger(),
-    jwtServerPlugin(),
+    apiRoutesPlugin(),
   ].filter(Boolean),
   resolve: {
     alias: {
@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests only need the source; vite.config.ts would also start the API middleware
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
+});